@@ -0,0 +1,190 @@
+/**
+This file is part of Scan.
+
+Scan is free software: you can redistribute it and/or modify
+it under the terms of the GNU General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+Scan is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU General Public License for more details.
+
+You should have received a copy of the GNU General Public License
+along with Scan.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import * as fs from "fs";
+import * as path from "path";
+import { DetectedApp } from "./common/Interfaces";
+
+// This module doesn't depend on the vscode module, so the detection can be run against any directory
+
+/**
+ * Detects the applications of a monorepo from the build manifests in its directories
+ */
+export class AppDetector {
+  /**
+   * Files that mark the root directory of an application
+   */
+  private static readonly manifests: string[] = [
+    "package.json",
+    "pom.xml",
+    "build.gradle",
+    "build.gradle.kts",
+    "go.mod",
+    "requirements.txt",
+    "setup.py",
+    "pyproject.toml",
+    "Pipfile",
+    "Gemfile",
+    "composer.json",
+    "Cargo.toml",
+    "build.sbt",
+  ];
+
+  /**
+   * Directories that hold dependencies, build output or reports instead of applications
+   */
+  private static readonly skippedDirs: string[] = [
+    "node_modules",
+    "bower_components",
+    "vendor",
+    "target",
+    "build",
+    "dist",
+    "out",
+    "reports",
+    "venv",
+    "__pycache__",
+  ];
+
+  /**
+   * Returns the applications under the directory, the directory itself included, in path order
+   *
+   * @param root Directory to search, ex. a workspace folder
+   * @param maxDepth Number of directory levels below the root to search
+   */
+  public static detect(root: string, maxDepth: number = 4): DetectedApp[] {
+    const apps: DetectedApp[] = [];
+    AppDetector.search(root, root, maxDepth, apps);
+    return apps.sort((a, b) => a.appRoot.localeCompare(b.appRoot));
+  }
+
+  /**
+   * Adds the app of the directory if it has a manifest, then searches its subdirectories
+   *
+   * @param root Directory the search started at
+   * @param dir Directory to search
+   * @param depth Remaining number of directory levels to search
+   * @param apps Detected apps
+   */
+  private static search(
+    root: string,
+    dir: string,
+    depth: number,
+    apps: DetectedApp[]
+  ): void {
+    let names: string[];
+    try {
+      names = fs.readdirSync(dir);
+    } catch (error) {
+      // Not readable, ex. a directory of another user
+      return;
+    }
+
+    const files: string[] = [];
+    const dirs: string[] = [];
+    for (const name of names) {
+      try {
+        const stats: fs.Stats = fs.statSync(path.join(dir, name));
+        if (stats.isFile()) {
+          files.push(name);
+        } else if (stats.isDirectory()) {
+          dirs.push(name);
+        }
+      } catch (error) {
+        // A broken link
+      }
+    }
+
+    const manifests: string[] = files.filter(
+      (file) => AppDetector.manifests.indexOf(file) !== -1
+    );
+    if (manifests.length) {
+      apps.push({
+        appRoot: dir,
+        manifests,
+        name:
+          AppDetector.readName(dir, manifests) ||
+          path.relative(root, dir) ||
+          path.basename(dir),
+      });
+    }
+
+    if (depth <= 0) {
+      return;
+    }
+    for (const name of dirs) {
+      if (
+        !name.startsWith(".") &&
+        AppDetector.skippedDirs.indexOf(name) === -1
+      ) {
+        AppDetector.search(root, path.join(dir, name), depth - 1, apps);
+      }
+    }
+  }
+
+  /**
+   * Reads the name of the application from the manifests that declare one, undefined if none do
+   *
+   * @param dir App root directory
+   * @param manifests File names of the manifests in the directory
+   */
+  private static readName(
+    dir: string,
+    manifests: string[]
+  ): string | undefined {
+    for (const manifest of manifests) {
+      try {
+        const content: string = fs.readFileSync(
+          path.join(dir, manifest),
+          "utf8"
+        );
+        let name: string | undefined;
+        switch (manifest) {
+          case "package.json":
+          case "composer.json":
+            name = JSON.parse(content).name;
+            break;
+          case "go.mod":
+            const module: RegExpMatchArray | null = content.match(
+              /^module\s+(\S+)/m
+            );
+            name = module ? module[1].split("/").pop() : undefined;
+            break;
+          case "pom.xml":
+            // The artifact id of the project, not the one of its parent
+            const artifactId: RegExpMatchArray | null = content
+              .replace(/<parent>[\s\S]*?<\/parent>/, "")
+              .match(/<artifactId>([^<]+)<\/artifactId>/);
+            name = artifactId ? artifactId[1].trim() : undefined;
+            break;
+          case "Cargo.toml":
+          case "pyproject.toml":
+            const tomlName: RegExpMatchArray | null = content.match(
+              /^name\s*=\s*"([^"]+)"/m
+            );
+            name = tomlName ? tomlName[1] : undefined;
+            break;
+        }
+        if (typeof name === "string" && name.trim() !== "") {
+          return name.trim();
+        }
+      } catch (error) {
+        // A manifest that can't be read or parsed doesn't name the app
+      }
+    }
+    return undefined;
+  }
+}
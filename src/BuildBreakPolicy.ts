@@ -0,0 +1,384 @@
+/**
+This file is part of Scan.
+
+Scan is free software: you can redistribute it and/or modify
+it under the terms of the GNU General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+Scan is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU General Public License for more details.
+
+You should have received a copy of the GNU General Public License
+along with Scan.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import {
+  commands,
+  ConfigurationChangeEvent,
+  Disposable,
+  FileSystemWatcher,
+  StatusBarAlignment,
+  StatusBarItem,
+  ThemeColor,
+  Uri,
+  window,
+  workspace,
+  WorkspaceFolder,
+} from "vscode";
+import { PolicyThresholds, ResultInfo, ScanRc } from "./common/Interfaces";
+import { ExplorerController } from "./ExplorerController";
+import { ResultInfoFactory } from "./factories/ResultInfoFactory";
+import { ResultsListController } from "./ResultsListController";
+import { SarifViewerVsCodeDiagnostic } from "./SarifViewerDiagnostic";
+import { Scan } from "./Scan";
+import { SVDiagnosticCollection } from "./SVDiagnosticCollection";
+import { Utilities } from "./Utilities";
+
+type Severity = "critical" | "high" | "medium" | "low";
+
+/**
+ * Outcome of checking the results against the build break policy
+ */
+interface PolicyVerdict {
+  // Scan modes whose thresholds were checked
+  modes: string[];
+  // Number of findings over each exceeded threshold, keyed by the severity or kind
+  overLimits: Map<string, number>;
+  violations: SarifViewerVsCodeDiagnostic[];
+}
+
+/**
+ * Checks the loaded results against the thresholds of the scan mode, so it's known whether they would fail a pipeline
+ * The verdict is shown in the status bar, clicking it filters the results list to the violating findings
+ */
+export class BuildBreakPolicy implements Disposable {
+  private disposables: Disposable[] = [];
+
+  public static readonly ShowPolicyViolationsCommand =
+    "extension.shiftleft.ShowPolicyViolations";
+
+  private static readonly severities: Severity[] = [
+    "critical",
+    "high",
+    "medium",
+    "low",
+  ];
+
+  private readonly configBuildBreakPolicy = "buildBreakPolicy";
+
+  private readonly statusBarItem: StatusBarItem;
+  private verdict: PolicyVerdict | undefined;
+
+  public constructor(
+    private readonly diagnosticCollection: SVDiagnosticCollection,
+    private readonly resultsListController: ResultsListController
+  ) {
+    this.statusBarItem = window.createStatusBarItem(
+      StatusBarAlignment.Left,
+      10
+    );
+    this.statusBarItem.command = BuildBreakPolicy.ShowPolicyViolationsCommand;
+    this.disposables.push(this.statusBarItem);
+
+    const scanRcWatcher: FileSystemWatcher = workspace.createFileSystemWatcher(
+      "**/.sastscanrc"
+    );
+    this.disposables.push(
+      scanRcWatcher,
+      scanRcWatcher.onDidChange(this.evaluate, this),
+      scanRcWatcher.onDidCreate(this.evaluate, this),
+      scanRcWatcher.onDidDelete(this.evaluate, this)
+    );
+    this.disposables.push(
+      diagnosticCollection.diagnosticCollectionChanged((event) => {
+        if (event.type === "Synchronize") {
+          this.evaluate();
+        }
+      })
+    );
+    this.disposables.push(
+      workspace.onDidChangeConfiguration(this.onSettingsChanged, this)
+    );
+    this.disposables.push(
+      commands.registerCommand(
+        BuildBreakPolicy.ShowPolicyViolationsCommand,
+        this.showViolations.bind(this)
+      )
+    );
+    this.evaluate();
+  }
+
+  /**
+   * For disposing on extension close
+   */
+  public dispose(): void {
+    Disposable.from(...this.disposables).dispose();
+    this.disposables = [];
+  }
+
+  /**
+   * Checks the results again when the policy or the scan mode changed in the settings
+   * @param event configuration change event
+   */
+  private onSettingsChanged(event: ConfigurationChangeEvent): void {
+    if (event.affectsConfiguration(Utilities.configSection)) {
+      this.evaluate();
+    }
+  }
+
+  /**
+   * Checks the results that aren't suppressed against the thresholds of the scan mode of their workspace folder
+   * and updates the status bar and the violations the results list can be filtered to
+   */
+  private evaluate(): void {
+    if (!this.diagnosticCollection.getRunCount()) {
+      this.verdict = undefined;
+      this.resultsListController.setViolations([]);
+      this.statusBarItem.hide();
+      return;
+    }
+
+    const folders: Map<
+      WorkspaceFolder | undefined,
+      SarifViewerVsCodeDiagnostic[]
+    > = new Map<WorkspaceFolder | undefined, SarifViewerVsCodeDiagnostic[]>();
+    for (const diagnostic of this.diagnosticCollection.getAllDiagnostics()) {
+      if (ResultInfoFactory.isSuppressed(diagnostic.resultInfo)) {
+        continue;
+      }
+      const folder: WorkspaceFolder | undefined = BuildBreakPolicy.getFolder(
+        diagnostic.resultInfo
+      );
+      const folderDiagnostics: SarifViewerVsCodeDiagnostic[] =
+        folders.get(folder) || [];
+      folderDiagnostics.push(diagnostic);
+      folders.set(folder, folderDiagnostics);
+    }
+
+    const verdict: PolicyVerdict = {
+      modes: [],
+      overLimits: new Map<string, number>(),
+      violations: [],
+    };
+    let checked: boolean = false;
+    const folderList: readonly WorkspaceFolder[] =
+      workspace.workspaceFolders || [];
+    // The folders without findings pass, ex. after a clean scan
+    for (const folder of folderList.length ? folderList : [undefined]) {
+      if (!folders.has(folder)) {
+        folders.set(folder, []);
+      }
+    }
+    folders.forEach((diagnostics, folder) => {
+      const mode: string = folder ? Scan.getScanMode(folder) : "ide";
+      const thresholds: PolicyThresholds | undefined = this.getThresholds(
+        folder,
+        mode
+      );
+      if (!thresholds) {
+        return;
+      }
+      checked = true;
+      if (verdict.modes.indexOf(mode) === -1) {
+        verdict.modes.push(mode);
+      }
+      BuildBreakPolicy.check(diagnostics, thresholds, verdict);
+    });
+
+    this.verdict = checked ? verdict : undefined;
+    this.resultsListController.setViolations(verdict.violations);
+    this.updateStatusBar();
+  }
+
+  /**
+   * Adds the findings over the thresholds to the verdict
+   * @param diagnostics findings of a workspace folder
+   * @param thresholds thresholds of the scan mode of the folder
+   * @param verdict verdict to add the violations to
+   */
+  private static check(
+    diagnostics: SarifViewerVsCodeDiagnostic[],
+    thresholds: PolicyThresholds,
+    verdict: PolicyVerdict
+  ): void {
+    const addViolations: (
+      key: string,
+      max: number | undefined,
+      matching: SarifViewerVsCodeDiagnostic[]
+    ) => void = (key, max, matching) => {
+      if (max === undefined || matching.length <= max) {
+        return;
+      }
+      verdict.overLimits.set(
+        key,
+        (verdict.overLimits.get(key) || 0) + matching.length - max
+      );
+      for (const diagnostic of matching) {
+        if (verdict.violations.indexOf(diagnostic) === -1) {
+          verdict.violations.push(diagnostic);
+        }
+      }
+    };
+
+    const maxSeverities: { [severity: string]: number | undefined } = {
+      critical: thresholds.max_critical,
+      high: thresholds.max_high,
+      low: thresholds.max_low,
+      medium: thresholds.max_medium,
+    };
+    for (const severity of BuildBreakPolicy.severities) {
+      addViolations(
+        severity,
+        maxSeverities[severity],
+        diagnostics.filter(
+          (diagnostic) =>
+            BuildBreakPolicy.getSeverity(diagnostic.resultInfo) === severity
+        )
+      );
+    }
+
+    const maxKinds: { [kind: string]: number } = thresholds.max_kinds || {};
+    for (const kind of Object.keys(maxKinds)) {
+      addViolations(
+        kind,
+        maxKinds[kind],
+        diagnostics.filter((diagnostic) =>
+          (diagnostic.resultInfo.runInfo.toolName || "")
+            .toLowerCase()
+            .includes(kind.toLowerCase())
+        )
+      );
+    }
+  }
+
+  /**
+   * Shows the verdict in the status bar, ex. Scan: FAIL — 3 critical over limit
+   */
+  private updateStatusBar(): void {
+    const verdict: PolicyVerdict | undefined = this.verdict;
+    if (!verdict) {
+      this.statusBarItem.hide();
+      return;
+    }
+
+    const modes: string = verdict.modes.join(", ");
+    if (verdict.violations.length) {
+      const overLimits: string[] = [];
+      verdict.overLimits.forEach((count, key) =>
+        overLimits.push(`${count} ${key}`)
+      );
+      this.statusBarItem.text = `$(error) Scan: FAIL — ${overLimits.join(
+        ", "
+      )} over limit`;
+      this.statusBarItem.tooltip = `${verdict.violations.length} finding(s) fail the build break policy of the ${modes} mode. Click to show them.`;
+      this.statusBarItem.backgroundColor = new ThemeColor(
+        "statusBarItem.errorBackground"
+      );
+    } else {
+      this.statusBarItem.text = "$(pass) Scan: PASS";
+      this.statusBarItem.tooltip = `The results are within the build break policy of the ${modes} mode.`;
+      this.statusBarItem.backgroundColor = undefined;
+    }
+    this.statusBarItem.show();
+  }
+
+  /**
+   * Filters the results list to the findings that violate the policy
+   */
+  private async showViolations(): Promise<void> {
+    if (!this.verdict) {
+      await window.showInformationMessage(
+        "Scan: There are no results to check against the build break policy."
+      );
+      return;
+    }
+    if (!this.verdict.violations.length) {
+      await window.showInformationMessage(
+        `Scan: The results are within the build break policy of the ${this.verdict.modes.join(
+          ", "
+        )} mode.`
+      );
+      return;
+    }
+
+    await commands.executeCommand(ExplorerController.ExplorerLaunchCommand);
+    this.resultsListController.showViolations();
+  }
+
+  /**
+   * Returns the thresholds of the scan mode, the ones from the .sastscanrc file of the app root take precedence over the setting
+   * The default thresholds apply to the modes without thresholds of their own
+   * @param folder workspace folder of the results
+   * @param mode scan mode
+   */
+  private getThresholds(
+    folder: WorkspaceFolder | undefined,
+    mode: string
+  ): PolicyThresholds | undefined {
+    let scanRc: ScanRc | undefined;
+    try {
+      scanRc = folder && Scan.readScanRc(Scan.getAppRoot(folder));
+    } catch (error) {
+      // An invalid .sastscanrc file is reported by its schema in the editor
+    }
+    const policies: ({ [mode: string]: PolicyThresholds } | undefined)[] = [
+      scanRc && scanRc.build_break_policy,
+      workspace
+        .getConfiguration(Utilities.configSection, folder && folder.uri)
+        .get(this.configBuildBreakPolicy, undefined),
+    ];
+    for (const policy of policies) {
+      if (policy && (policy[mode] || policy.default)) {
+        return policy[mode] || policy.default;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Returns the severity of the result, from the severity the scanner reports or else its level
+   * @param resultInfo result to get the severity of
+   */
+  private static getSeverity(resultInfo: ResultInfo): Severity {
+    const issueSeverity: string | undefined =
+      resultInfo.additionalProperties &&
+      resultInfo.additionalProperties["issue_severity"];
+    if (typeof issueSeverity === "string") {
+      const severity: string = issueSeverity.toLowerCase();
+      if (BuildBreakPolicy.severities.indexOf(<Severity>severity) !== -1) {
+        return <Severity>severity;
+      }
+    }
+
+    switch (resultInfo.severityLevel) {
+      case "error":
+        return "high";
+      case "warning":
+        return "medium";
+      default:
+        return "low";
+    }
+  }
+
+  /**
+   * Returns the workspace folder of the result, from its location or else from its sarif file
+   * @param resultInfo result to get the workspace folder of
+   */
+  private static getFolder(
+    resultInfo: ResultInfo
+  ): WorkspaceFolder | undefined {
+    const location: Uri | undefined =
+      resultInfo.assignedLocation && resultInfo.assignedLocation.uri;
+    const folders: readonly WorkspaceFolder[] =
+      workspace.workspaceFolders || [];
+    return (
+      (location && workspace.getWorkspaceFolder(location)) ||
+      workspace.getWorkspaceFolder(
+        Uri.file(resultInfo.runInfo.sarifFileFullPath)
+      ) ||
+      folders[0]
+    );
+  }
+}
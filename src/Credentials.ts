@@ -0,0 +1,329 @@
+/**
+This file is part of Scan.
+
+Scan is free software: you can redistribute it and/or modify
+it under the terms of the GNU General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+Scan is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU General Public License for more details.
+
+You should have received a copy of the GNU General Public License
+along with Scan.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import {
+  commands,
+  ConfigurationTarget,
+  ExtensionContext,
+  SecretStorage,
+  window,
+  workspace,
+  WorkspaceConfiguration,
+  WorkspaceFolder,
+} from "vscode";
+import { ShiftLeftCredentials } from "./common/Interfaces";
+import { Utilities } from "./Utilities";
+
+/**
+ * Keeps the ShiftLeft NextGen credentials in the secret storage of the extension
+ * and redacts them from the text that gets shown to the user
+ */
+export class Credentials {
+  public static readonly SignInCommand = "extension.shiftleft.SignIn";
+  public static readonly SignOutCommand = "extension.shiftleft.SignOut";
+
+  private static readonly secretKey = "shiftleft-scan.credentials";
+  private static readonly redactedText = "********";
+
+  // Settings the credentials were kept in before they moved to the secret storage
+  private static readonly configOrgId = "orgId";
+  private static readonly configApiToken = "apiToken";
+  private static readonly configAccessToken = "accessToken";
+
+  private static secrets: SecretStorage | undefined;
+
+  /**
+   * Credentials read from the secret storage, kept so the output can be redacted synchronously
+   */
+  private static credentials: ShiftLeftCredentials | undefined;
+
+  public static async initialize(
+    extensionContext: ExtensionContext
+  ): Promise<void> {
+    Credentials.secrets = extensionContext.secrets;
+    extensionContext.subscriptions.push(
+      commands.registerCommand(Credentials.SignInCommand, Credentials.signIn),
+      commands.registerCommand(Credentials.SignOutCommand, Credentials.signOut),
+      extensionContext.secrets.onDidChange(async (event) => {
+        if (event.key === Credentials.secretKey) {
+          await Credentials.load();
+        }
+      })
+    );
+    await Credentials.load();
+    // The extension works without the migration, so its failure doesn't stop the activation
+    try {
+      await Credentials.migrateSettings();
+    } catch (error) {
+      // tslint:disable-next-line: no-floating-promises
+      window.showErrorMessage(
+        `Scan: Cannot move the ShiftLeft NextGen credentials from the settings to the secret storage because: ${error.message}`
+      );
+    }
+  }
+
+  /**
+   * Returns the stored credentials, undefined if the user hasn't signed in
+   */
+  public static get(): ShiftLeftCredentials | undefined {
+    return Credentials.credentials;
+  }
+
+  /**
+   * Replaces the stored credentials and any token assignments in the text with a placeholder
+   *
+   * @param text Text to redact, ex. the output of a scan
+   */
+  public static redact(text: string): string {
+    let redacted: string = text.replace(
+      /(SHIFTLEFT_[A-Z_]*TOKEN\s*[=:]\s*)("?)[^\s"]+/g,
+      `$1$2${Credentials.redactedText}`
+    );
+    const credentials: ShiftLeftCredentials | undefined =
+      Credentials.credentials;
+    if (credentials) {
+      for (const secret of [credentials.apiToken, credentials.accessToken]) {
+        if (secret) {
+          redacted = redacted.split(secret).join(Credentials.redactedText);
+        }
+      }
+    }
+    return redacted;
+  }
+
+  /**
+   * Asks the user for the credentials and stores them in the secret storage
+   */
+  public static async signIn(): Promise<void> {
+    const current: ShiftLeftCredentials | undefined = Credentials.credentials;
+    const orgId: string | undefined = await window.showInputBox({
+      ignoreFocusOut: true,
+      prompt:
+        "ShiftLeft NextGen organization id. Visit https://www.shiftleft.io/register to signup.",
+      value: current && current.orgId,
+    });
+    if (!orgId) {
+      return;
+    }
+    const apiToken: string | undefined = await window.showInputBox({
+      ignoreFocusOut: true,
+      password: true,
+      prompt: "ShiftLeft NextGen public API token",
+    });
+    if (!apiToken) {
+      return;
+    }
+    const accessToken: string | undefined = await window.showInputBox({
+      ignoreFocusOut: true,
+      password: true,
+      prompt: "ShiftLeft NextGen access token",
+    });
+    if (!accessToken) {
+      return;
+    }
+
+    await Credentials.store({ accessToken, apiToken, orgId });
+    await window.showInformationMessage(
+      "Scan: Signed in to ShiftLeft NextGen."
+    );
+  }
+
+  /**
+   * Removes the credentials from the secret storage
+   */
+  public static async signOut(): Promise<void> {
+    if (!Credentials.secrets) {
+      return;
+    }
+    await Credentials.secrets.delete(Credentials.secretKey);
+    Credentials.credentials = undefined;
+    await window.showInformationMessage(
+      "Scan: Signed out of ShiftLeft NextGen."
+    );
+  }
+
+  /**
+   * Loads the credentials from the secret storage
+   */
+  private static async load(): Promise<void> {
+    if (!Credentials.secrets) {
+      return;
+    }
+    const value: string | undefined = await Credentials.secrets.get(
+      Credentials.secretKey
+    );
+    try {
+      Credentials.credentials = value ? JSON.parse(value) : undefined;
+    } catch (error) {
+      Credentials.credentials = undefined;
+    }
+  }
+
+  /**
+   * Saves the credentials to the secret storage
+   *
+   * @param credentials Credentials to save
+   */
+  private static async store(credentials: ShiftLeftCredentials): Promise<void> {
+    if (!Credentials.secrets) {
+      return;
+    }
+    Credentials.credentials = credentials;
+    await Credentials.secrets.store(
+      Credentials.secretKey,
+      JSON.stringify(credentials)
+    );
+  }
+
+  /**
+   * Moves the credentials from the plain text settings to the secret storage and clears the settings
+   * The settings of the workspace folders are cleared as well, the first value found is the one kept
+   * A setting that can't be cleared, ex. in a settings file with errors, is reported and left as is
+   */
+  private static async migrateSettings(): Promise<void> {
+    if (!Credentials.secrets) {
+      return;
+    }
+    const configs: {
+      config: WorkspaceConfiguration;
+      folder?: WorkspaceFolder;
+    }[] = [
+      { config: workspace.getConfiguration(Utilities.configSection) },
+      ...(workspace.workspaceFolders || []).map((folder) => ({
+        config: workspace.getConfiguration(Utilities.configSection, folder.uri),
+        folder,
+      })),
+    ];
+    const keys: string[] = [
+      Credentials.configOrgId,
+      Credentials.configApiToken,
+      Credentials.configAccessToken,
+    ];
+    const values: string[] = keys.map((key) => {
+      for (const { config } of configs) {
+        const value: string = config.get(key, "");
+        if (value !== "") {
+          return value;
+        }
+      }
+      return "";
+    });
+    if (!values.some((value) => value !== "")) {
+      return;
+    }
+
+    let moved: boolean = false;
+    if (!Credentials.credentials && values.every((value) => value !== "")) {
+      await Credentials.store({
+        accessToken: values[2],
+        apiToken: values[1],
+        orgId: values[0],
+      });
+      moved = true;
+    }
+
+    const failures: string[] = [];
+    for (const key of keys) {
+      for (const { config, folder } of configs) {
+        const inspected:
+          | {
+              globalValue?: string;
+              workspaceValue?: string;
+              workspaceFolderValue?: string;
+            }
+          | undefined = config.inspect<string>(key);
+        if (!inspected) {
+          continue;
+        }
+        if (folder) {
+          if (inspected.workspaceFolderValue !== undefined) {
+            await Credentials.clearSetting(
+              config,
+              key,
+              failures,
+              ConfigurationTarget.WorkspaceFolder
+            );
+          }
+          continue;
+        }
+        if (inspected.globalValue !== undefined) {
+          await Credentials.clearSetting(
+            config,
+            key,
+            failures,
+            ConfigurationTarget.Global
+          );
+        }
+        if (inspected.workspaceValue !== undefined) {
+          await Credentials.clearSetting(
+            config,
+            key,
+            failures,
+            ConfigurationTarget.Workspace
+          );
+        }
+      }
+    }
+
+    // The settings that were dropped are named, the secret storage only takes the credentials as a whole
+    const dropped: string = keys
+      .filter((key, index) => values[index] !== "")
+      .map((key) => `${Utilities.configSection}.${key}`)
+      .join(", ");
+    if (failures.length) {
+      // tslint:disable-next-line: no-floating-promises
+      window.showWarningMessage(
+        `Scan: ${
+          moved
+            ? "The ShiftLeft NextGen credentials were saved to the secret storage, but they"
+            : "The ShiftLeft NextGen credentials"
+        } cannot be removed from the settings. Remove them by hand. ${failures.join(
+          "; "
+        )}`
+      );
+      return;
+    }
+    // tslint:disable-next-line: no-floating-promises
+    window.showInformationMessage(
+      moved
+        ? "Scan: The ShiftLeft NextGen credentials were moved from the settings to the secret storage."
+        : Credentials.credentials
+        ? `Scan: The ShiftLeft NextGen credentials were removed from the settings (${dropped}), the ones already in the secret storage are kept.`
+        : `Scan: The incomplete ShiftLeft NextGen credentials were removed from the settings (${dropped}). Use 'ShiftLeft: Sign in to ShiftLeft NextGen' to enter all of them.`
+    );
+  }
+
+  /**
+   * Clears a setting, adding the error to the failures if the settings file can't be written
+   *
+   * @param config Configuration the setting is in
+   * @param key Key of the setting
+   * @param failures Failures of the settings that couldn't be cleared
+   * @param target Settings the value is cleared from
+   */
+  private static async clearSetting(
+    config: WorkspaceConfiguration,
+    key: string,
+    failures: string[],
+    target: ConfigurationTarget
+  ): Promise<void> {
+    try {
+      await config.update(key, undefined, target);
+    } catch (error) {
+      failures.push(`${Utilities.configSection}.${key}: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,414 @@
+/**
+This file is part of Scan.
+
+Scan is free software: you can redistribute it and/or modify
+it under the terms of the GNU General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+Scan is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU General Public License for more details.
+
+You should have received a copy of the GNU General Public License
+along with Scan.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import * as fs from "fs";
+import * as path from "path";
+import { execFile } from "child_process";
+import {
+  commands,
+  Disposable,
+  OutputChannel,
+  ProgressLocation,
+  window,
+  workspace,
+  WorkspaceFolder,
+} from "vscode";
+import { Credentials } from "./Credentials";
+import { ImageLookup, ImageManager } from "./ImageManager";
+import { ScanRunnerFactory } from "./factories/ScanRunnerFactory";
+import { ContainerScanRunner } from "./runners/ContainerScanRunner";
+import { ScanRunner } from "./runners/ScanRunner";
+import { Scan } from "./Scan";
+
+/**
+ * Outcome of one of the environment checks
+ */
+interface CheckResult {
+  name: string;
+  status: "ok" | "warning" | "error";
+  detail: string;
+  // What the user can do to fix the problem
+  action?: string;
+}
+
+/**
+ * Output of a command run by a check
+ */
+interface CommandOutput {
+  code: number;
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * Checks the prerequisites of a scan one by one and reports what is missing and how to fix it
+ */
+export class EnvironmentDoctor implements Disposable {
+  private disposables: Disposable[] = [];
+  private outputChannel: OutputChannel | undefined;
+
+  // Time a check command gets before it's considered hung, ex. docker info with a stuck daemon
+  private static readonly commandTimeout: number = 15000;
+
+  private static readonly statusIcons: { [status: string]: string } = {
+    error: "✖",
+    ok: "✔",
+    warning: "⚠",
+  };
+
+  public constructor() {
+    this.disposables.push(
+      commands.registerCommand(Scan.CheckEnvironmentCommand, () =>
+        this.checkEnvironment()
+      )
+    );
+  }
+
+  /**
+   * For disposing on extension close
+   */
+  public dispose(): void {
+    Disposable.from(...this.disposables).dispose();
+    this.disposables = [];
+    if (this.outputChannel) {
+      this.outputChannel.dispose();
+      this.outputChannel = undefined;
+    }
+  }
+
+  /**
+   * Runs the checks and shows the report in the output panel
+   */
+  private async checkEnvironment(): Promise<void> {
+    const results: CheckResult[] = await window.withProgress(
+      {
+        location: ProgressLocation.Notification,
+        title: "Checking the scan environment",
+      },
+      (progress) =>
+        this.runChecks((name: string) => progress.report({ message: name }))
+    );
+
+    this.outputChannel =
+      this.outputChannel || window.createOutputChannel("Scan Environment");
+    this.outputChannel.clear();
+    for (const result of results) {
+      this.outputChannel.appendLine(
+        `${EnvironmentDoctor.statusIcons[result.status]} ${result.name}: ${
+          result.detail
+        }`
+      );
+      if (result.action) {
+        this.outputChannel.appendLine(`    → ${result.action}`);
+      }
+    }
+    this.outputChannel.show(true);
+
+    const errors: number = results.filter((r) => r.status === "error").length;
+    const warnings: number = results.filter((r) => r.status === "warning")
+      .length;
+    if (errors) {
+      await window.showErrorMessage(
+        `Scan: Found ${errors} problem(s) that stop the scans from running. See the report for how to fix them.`
+      );
+    } else if (warnings) {
+      await window.showWarningMessage(
+        `Scan: The scans can run, but found ${warnings} warning(s). See the report for details.`
+      );
+    } else {
+      await window.showInformationMessage(
+        "Scan: The scan environment is ready."
+      );
+    }
+  }
+
+  /**
+   * Runs the checks in turn, skipping the ones whose prerequisite failed
+   * Only the prerequisites of the configured runner are errors, ex. docker is a warning when the scans run with slscan
+   *
+   * @param onCheck Callback invoked with the name of each check as it starts
+   */
+  private async runChecks(
+    onCheck: (name: string) => void
+  ): Promise<CheckResult[]> {
+    const results: CheckResult[] = [];
+    const folders: readonly WorkspaceFolder[] =
+      workspace.workspaceFolders || [];
+    const runner: ScanRunner = Scan.getRunner(folders[0]);
+    const container: boolean = runner instanceof ContainerScanRunner;
+    const runtime: string = Scan.getContainerRuntime(folders[0]);
+
+    onCheck("slscan");
+    results.push(
+      await EnvironmentDoctor.checkSlscan(
+        runner.name === ScanRunnerFactory.Local ? "error" : "warning"
+      )
+    );
+
+    onCheck(runtime);
+    const runtimeSeverity: "warning" | "error" = container
+      ? "error"
+      : "warning";
+    const cli: CheckResult = await EnvironmentDoctor.checkRuntime(
+      runtime,
+      runtimeSeverity
+    );
+    results.push(cli);
+    if (cli.status === "ok") {
+      onCheck(`${runtime} info`);
+      const engine: CheckResult = await EnvironmentDoctor.checkEngine(
+        runtime,
+        runtimeSeverity
+      );
+      results.push(engine);
+      if (engine.status === "ok") {
+        const images: string[] = folders
+          .map((folder) => Scan.getContainerImage(folder, Credentials.get()))
+          .filter((image, index, all) => all.indexOf(image) === index);
+        for (const image of images) {
+          onCheck(image);
+          results.push(await EnvironmentDoctor.checkImage(runtime, image));
+        }
+      }
+    }
+
+    for (const folder of folders) {
+      onCheck(folder.name);
+      results.push(EnvironmentDoctor.checkReportsDir(folder));
+    }
+    return results;
+  }
+
+  /**
+   * Checks that slscan is on the PATH and reports its version
+   *
+   * @param severity Status of the check when slscan is missing
+   */
+  private static async checkSlscan(
+    severity: "warning" | "error"
+  ): Promise<CheckResult> {
+    const name: string = "slscan";
+    if (!Scan.checkLocalCommand()) {
+      return {
+        action:
+          "Install slscan (https://slscan.io) to scan without a container runtime",
+        detail: "slscan isn't on the PATH",
+        name,
+        status: severity,
+      };
+    }
+
+    const output: CommandOutput = await EnvironmentDoctor.run("slscan", [
+      "--version",
+    ]);
+    if (output.code !== 0) {
+      return {
+        action: "Update slscan to the latest version",
+        detail: "slscan is on the PATH but didn't report its version",
+        name,
+        status: "warning",
+      };
+    }
+    return {
+      detail: (output.stdout || output.stderr).trim(),
+      name,
+      status: "ok",
+    };
+  }
+
+  /**
+   * Checks that the cli of the container runtime can be run
+   *
+   * @param runtime Cli of the container runtime, ex. docker or podman
+   * @param severity Status of the check when the cli is missing
+   */
+  private static async checkRuntime(
+    runtime: string,
+    severity: "warning" | "error"
+  ): Promise<CheckResult> {
+    const name: string = "Container runtime";
+    const output: CommandOutput = await EnvironmentDoctor.run(runtime, [
+      "--version",
+    ]);
+    if (output.code !== 0) {
+      return {
+        action:
+          runtime === ContainerScanRunner.dockerCmd
+            ? "Install Docker Desktop from https://www.docker.com/products/docker-desktop"
+            : `Install ${runtime}, or pick another runner in the Runner setting`,
+        detail: `'${runtime}' can't be run`,
+        name,
+        status: severity,
+      };
+    }
+    return { detail: output.stdout.trim(), name, status: "ok" };
+  }
+
+  /**
+   * Checks that the container engine is running and the user is allowed to connect to it
+   *
+   * @param runtime Cli of the container runtime, ex. docker or podman
+   * @param severity Status of the check when the engine can't be reached
+   */
+  private static async checkEngine(
+    runtime: string,
+    severity: "warning" | "error"
+  ): Promise<CheckResult> {
+    const name: string = "Container engine";
+    const output: CommandOutput = await EnvironmentDoctor.run(runtime, [
+      "info",
+    ]);
+    if (output.code === 0) {
+      return { detail: "running", name, status: "ok" };
+    }
+    if (/permission denied/i.test(output.stderr)) {
+      return {
+        action:
+          "Add your user to the docker group (sudo usermod -aG docker $USER) and sign in again",
+        detail: "the user isn't allowed to connect to the engine socket",
+        name,
+        status: severity,
+      };
+    }
+    return {
+      action:
+        runtime === ContainerScanRunner.dockerCmd
+          ? "Start Docker Desktop or the docker service"
+          : `Start the ${runtime} service or machine`,
+      detail: "the engine isn't running",
+      name,
+      status: severity,
+    };
+  }
+
+  /**
+   * Checks that the scan image is available locally and reports its digest
+   *
+   * @param runtime Cli of the container runtime, ex. docker or podman
+   * @param image Container image the scans use
+   */
+  private static async checkImage(
+    runtime: string,
+    image: string
+  ): Promise<CheckResult> {
+    const name: string = `Image ${image}`;
+    const lookup: ImageLookup = await ImageManager.lookUpImage(runtime, image);
+    if (lookup.errorOutput !== undefined) {
+      return {
+        action: `Check that ${runtime} is installed and its engine is running`,
+        detail: `the image couldn't be looked up: ${
+          lookup.errorOutput.split(/\r?\n/)[0]
+        }`,
+        name,
+        status: "warning",
+      };
+    }
+    if (!lookup.available) {
+      return {
+        action:
+          "Run 'ShiftLeft: Pull Scan Image', or 'ShiftLeft: Load Scan Image from Archive' on an offline machine",
+        detail: "the image hasn't been pulled",
+        name,
+        status: "warning",
+      };
+    }
+
+    // The images that were loaded from an archive or built locally have no repo digest
+    const output: CommandOutput = await EnvironmentDoctor.run(runtime, [
+      "image",
+      "inspect",
+      "--format",
+      "{{json .RepoDigests}}",
+      image,
+    ]);
+    let digests: string[] = [];
+    try {
+      digests = JSON.parse(output.stdout) || [];
+    } catch (error) {
+      // The runtime printed something other than json, the digest is unknown
+    }
+    return {
+      detail: digests.length
+        ? digests[0]
+        : "available locally, no digest (loaded from an archive or built locally)",
+      name,
+      status: "ok",
+    };
+  }
+
+  /**
+   * Checks that the app root of the workspace folder exists and the scan can write its reports there
+   *
+   * @param folder Workspace folder
+   */
+  private static checkReportsDir(folder: WorkspaceFolder): CheckResult {
+    const name: string = `Reports of ${folder.name}`;
+    const appRoot: string = Scan.getAppRoot(folder);
+    if (!fs.existsSync(appRoot) || !fs.statSync(appRoot).isDirectory()) {
+      return {
+        action: "Fix the App Root setting of the folder",
+        detail: `the app root '${appRoot}' doesn't exist`,
+        name,
+        status: "error",
+      };
+    }
+
+    const reportsDir: string = path.join(appRoot, "reports");
+    // The scan creates the reports directory if it's missing
+    const target: string = fs.existsSync(reportsDir) ? reportsDir : appRoot;
+    try {
+      fs.accessSync(target, fs.constants.W_OK);
+    } catch (error) {
+      return {
+        action: `Make '${target}' writable for your user`,
+        detail: `'${target}' isn't writable`,
+        name,
+        status: "error",
+      };
+    }
+    return { detail: `writable at '${reportsDir}'`, name, status: "ok" };
+  }
+
+  /**
+   * Runs a command and collects its output, the code is -1 if it couldn't be started or timed out
+   *
+   * @param cmd Command to run
+   * @param args Arguments for the command
+   */
+  private static run(cmd: string, args: string[]): Promise<CommandOutput> {
+    return new Promise<CommandOutput>((resolve) => {
+      execFile(
+        cmd,
+        args,
+        { timeout: EnvironmentDoctor.commandTimeout },
+        (error, stdout, stderr) => {
+          // The code of the error is the exit code, or a string like ENOENT when the command couldn't be started
+          const errorCode: unknown = error && (<{ code?: unknown }>error).code;
+          const code: number = !error
+            ? 0
+            : typeof errorCode === "number"
+            ? errorCode
+            : -1;
+          resolve({
+            code,
+            stderr: `${stderr}${error && !stderr ? error.message : ""}`,
+            stdout: `${stdout}`,
+          });
+        }
+      );
+    });
+  }
+}
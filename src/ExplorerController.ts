@@ -31,13 +31,14 @@ import { MessageType } from "./common/Enums";
 import {
   DiagnosticData,
   ResultsListData,
+  ScanProgress,
   WebviewMessage,
 } from "./common/Interfaces";
 import { SVDiagnosticCollection } from "./SVDiagnosticCollection";
 import { SarifViewerVsCodeDiagnostic } from "./SarifViewerDiagnostic";
 import { FileMapper } from "./FileMapper";
 import { Utilities } from "./Utilities";
-import { Scan } from "./Scan";
+import { Scan, ScanCompletedEvent } from "./Scan";
 
 /**
  * This class handles generating and providing the HTML content for the Explorer panel
@@ -132,6 +133,8 @@ export class ExplorerController implements Disposable {
     );
     this.diagnosticCollection = new SVDiagnosticCollection(fileMapper);
     this.disposables.push(this.diagnosticCollection);
+    this.disposables.push(Scan.onScanCompleted(this.onScanCompleted, this));
+    this.disposables.push(Scan.onScanProgress(this.onScanProgress, this));
   }
 
   public dispose(): void {
@@ -189,6 +192,36 @@ export class ExplorerController implements Disposable {
     this.wvPanel = undefined;
   }
 
+  /**
+   * Lets the webview know that the scan has finished or was cancelled
+   * @param event scan completed event
+   */
+  public onScanCompleted(event: ScanCompletedEvent): void {
+    if (!this.wvPanel) {
+      return;
+    }
+
+    this.sendMessage(
+      { data: JSON.stringify(event), type: MessageType.ScanCompleted },
+      false
+    );
+  }
+
+  /**
+   * Lets the webview know how far the running scan got
+   * @param progress progress parsed from the scanner output
+   */
+  public onScanProgress(progress: ScanProgress): void {
+    if (!this.wvPanel) {
+      return;
+    }
+
+    this.sendMessage(
+      { data: JSON.stringify(progress), type: MessageType.ScanProgress },
+      false
+    );
+  }
+
   /**
    * Handles when a message comes in from the Webview
    * @param message the message from the webview describing the type and data of the message
@@ -389,6 +422,8 @@ export class ExplorerController implements Disposable {
                 <div class="empty">
                   <p class="empty-title h3">Security scan has started</p>
                   <p class="empty-subtitle">Scan findings would appear here shortly ...</p>
+                  <progress id="scanProgressBar" class="progress" max="100"></progress>
+                  <p id="scanProgressMessage" class="empty-subtitle"></p>
                 </div>
               </div></div>
             </div>
@@ -32,10 +32,12 @@ import {
 } from "vscode";
 import { ProgressHelper } from "./ProgressHelper";
 import { Utilities } from "./Utilities";
-import { RunInfo } from "./common/Interfaces";
+import { PathRewriteRule, RunInfo } from "./common/Interfaces";
+import { Scan } from "./Scan";
 
 const RootPathSample: string = "c:\\sample\\path";
 const ConfigRootPaths: string = "rootpaths";
+const ConfigPathRewriteRules: string = "pathRewriteRules";
 
 /**
  * Handles mapping file locations if the file is not in the location specified in the sarif file
@@ -98,8 +100,8 @@ export class FileMapper implements Disposable {
   >();
 
   private readonly mappingChangedEventEmitter: EventEmitter<
-    Uri
-  > = new EventEmitter<Uri>();
+    Uri | undefined
+  > = new EventEmitter<Uri | undefined>();
 
   /**
    * Indicates that the user previously cancelled mapping a SARIF root path to a local root path.
@@ -114,12 +116,24 @@ export class FileMapper implements Disposable {
    */
   private rootpaths: string[] = [];
 
+  /**
+   * Contains the path rewrite rules configured in the settings by the user
+   */
+  private pathRewriteRules: PathRewriteRule[] = [];
+
   public constructor() {
     this.updateRootPaths();
+    this.updatePathRewriteRules();
     this.disposables.push(this.mappingChangedEventEmitter);
     this.disposables.push(
       workspace.onDidChangeConfiguration(this.updateRootPaths, this)
     );
+    this.disposables.push(
+      workspace.onDidChangeConfiguration(this.updatePathRewriteRules, this)
+    );
+    this.disposables.push(
+      Scan.onMountMappingsChanged(this.updateMappingsWithRewriteRules, this)
+    );
     this.disposables.push(
       commands.registerCommand(
         FileMapper.MapCommand,
@@ -128,7 +142,7 @@ export class FileMapper implements Disposable {
     );
   }
 
-  public get onMappingChanged(): Event<Uri> {
+  public get onMappingChanged(): Event<Uri | undefined> {
     return this.mappingChangedEventEmitter.event;
   }
 
@@ -280,6 +294,10 @@ export class FileMapper implements Disposable {
       return;
     }
 
+    if (this.tryRewriteUri(uri, uriBase)) {
+      return;
+    }
+
     if (this.tryRebaseUri(uri)) {
       return;
     }
@@ -448,12 +466,12 @@ export class FileMapper implements Disposable {
 
       input.buttons = <RemappingQuickInputButtons[]>[
         {
-          iconPath: Utilities.IconsPath + "open-folder.svg",
+          iconPath: Uri.file(Utilities.IconsPath + "open-folder.svg"),
           tooltip: "Open file picker",
           remappingType: "Open",
         },
         {
-          iconPath: Utilities.IconsPath + "next.svg",
+          iconPath: Uri.file(Utilities.IconsPath + "next.svg"),
           tooltip: "Skip to next",
           remappingType: "Skip",
         },
@@ -661,6 +679,46 @@ export class FileMapper implements Disposable {
     return false;
   }
 
+  /**
+   * Tries to map the path using the rewrite rules from the settings, then the container mounts of the docker scans
+   * A relative host path in a rule is tried against each of the workspace folders
+   * @param uri file uri to try to rewrite
+   * @param uriBase the base path of the uri
+   */
+  private tryRewriteUri(uri: Uri, uriBase?: string): boolean {
+    const filePath: string = FileMapper.normalizePath(
+      Utilities.getFsPathWithFragment(uri)
+    );
+    const rules: PathRewriteRule[] = this.pathRewriteRules.concat(
+      Scan.getMountMappings()
+    );
+
+    for (const rule of rules) {
+      const from: string = FileMapper.normalizePath(rule.from);
+      if (filePath !== from && !filePath.startsWith(`${from}/`)) {
+        continue;
+      }
+
+      const relativePath: string = filePath.substring(from.length);
+      const hostRoots: string[] = path.isAbsolute(rule.to)
+        ? [rule.to]
+        : (workspace.workspaceFolders || []).map((folder) =>
+            path.join(folder.uri.fsPath, rule.to)
+          );
+      for (const hostRoot of hostRoots) {
+        const mappedUri: Uri = Uri.file(
+          FileMapper.normalizePath(hostRoot) + relativePath
+        );
+        if (this.tryMapUri(mappedUri, Utilities.getFsPathWithFragment(uri))) {
+          this.saveBasePath(uri, mappedUri, uriBase);
+          return true;
+        }
+      }
+    }
+
+    return false;
+  }
+
   /**
    * Check if extension can be changed to map to an existing file
    * @param uri file uri to try to change
@@ -729,6 +787,46 @@ export class FileMapper implements Disposable {
     }
   }
 
+  /**
+   * Updates the pathRewriteRules property with the latest from the configuration
+   * @param event Optional event if this was called because the configuration change
+   */
+  private updatePathRewriteRules(event?: ConfigurationChangeEvent): void {
+    if (
+      !event ||
+      event.affectsConfiguration(
+        `${Utilities.configSection}.${ConfigPathRewriteRules}`
+      )
+    ) {
+      const sarifConfig: WorkspaceConfiguration = workspace.getConfiguration(
+        Utilities.configSection
+      );
+      this.pathRewriteRules = sarifConfig
+        .get<PathRewriteRule[]>(ConfigPathRewriteRules, [])
+        .filter((rule) => rule && rule.from && rule.to);
+
+      if (event) {
+        this.updateMappingsWithRewriteRules();
+      }
+    }
+  }
+
+  /**
+   * Goes through the filemappings and tries to remap the ones that aren't mapped using the rewrite rules
+   */
+  private updateMappingsWithRewriteRules(): void {
+    let remapped: boolean = false;
+    this.fileRemapping.forEach((value: Uri | undefined, key: string) => {
+      if (value === undefined && this.tryRewriteUri(Uri.file(key))) {
+        remapped = true;
+      }
+    });
+
+    if (remapped) {
+      this.mappingChangedEventEmitter.fire(undefined);
+    }
+  }
+
   /**
    * Goes through the filemappings and tries to remap any that aren't mapped(null) using the rootpaths
    */
@@ -746,10 +844,18 @@ export class FileMapper implements Disposable {
     );
 
     if (remapped) {
-      this.mappingChangedEventEmitter.fire();
+      this.mappingChangedEventEmitter.fire(undefined);
     }
   }
 
+  /**
+   * Converts the path to use forward slashes without a trailing slash, so paths from containers and hosts can be compared
+   * @param filePath path to normalize
+   */
+  private static normalizePath(filePath: string): string {
+    return filePath.replace(/\\/g, "/").replace(/\/+$/, "");
+  }
+
   private async mapFileCommand(
     runInfo: RunInfo,
     fileLocation: sarif.ArtifactLocation,
@@ -0,0 +1,197 @@
+/**
+This file is part of Scan.
+
+Scan is free software: you can redistribute it and/or modify
+it under the terms of the GNU General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+Scan is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU General Public License for more details.
+
+You should have received a copy of the GNU General Public License
+along with Scan.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import {
+  commands,
+  Disposable,
+  Range,
+  TextDocument,
+  TextDocumentContentProvider,
+  Uri,
+  window,
+  workspace,
+  WorkspaceEdit,
+} from "vscode";
+import { MessageType } from "./common/Enums";
+import { Fix, FixChange, FixFile, WebviewMessage } from "./common/Interfaces";
+import { ExplorerController } from "./ExplorerController";
+import { SarifViewerVsCodeDiagnostic } from "./SarifViewerDiagnostic";
+
+/**
+ * Handles applying the fixes of a result to the workspace
+ * Shows a diff preview of the proposed changes before the fix gets applied
+ */
+export class FixController implements TextDocumentContentProvider, Disposable {
+  private disposables: Disposable[] = [];
+
+  public static readonly ApplyFixCommand = "extension.shiftleft.ApplyFix";
+  private static readonly PreviewScheme = "shiftleft-fix";
+
+  /**
+   * Contains the proposed contents of the files shown in the diff preview, keyed by the preview uri
+   */
+  private readonly proposedContents: Map<string, string> = new Map<
+    string,
+    string
+  >();
+
+  public constructor(private readonly explorerController: ExplorerController) {
+    this.disposables.push(
+      commands.registerCommand(
+        FixController.ApplyFixCommand,
+        this.applyFix.bind(this)
+      )
+    );
+    this.disposables.push(
+      workspace.registerTextDocumentContentProvider(
+        FixController.PreviewScheme,
+        this
+      )
+    );
+    this.disposables.push(
+      explorerController.onWebViewMessage(this.onWebviewMessage.bind(this))
+    );
+  }
+
+  /**
+   * For disposing on extension close
+   */
+  public dispose(): void {
+    Disposable.from(...this.disposables).dispose();
+    this.disposables = [];
+  }
+
+  /**
+   * Provides the contents of the fixed file for the diff preview
+   * @param uri preview uri of the file
+   */
+  public provideTextDocumentContent(uri: Uri): string {
+    return this.proposedContents.get(uri.toString()) || "";
+  }
+
+  /**
+   * Shows the diff preview of a fix and applies it as a workspace edit once the user confirms
+   * The diagnostic is cleared after the fix got applied
+   * @param diagnostic diagnostic whose result has the fix
+   * @param fixIndex index of the fix in the result
+   */
+  public async applyFix(
+    diagnostic: SarifViewerVsCodeDiagnostic,
+    fixIndex: number
+  ): Promise<void> {
+    const fix: Fix | undefined = diagnostic.resultInfo.fixes[fixIndex];
+    if (!fix || fix.files.length === 0) {
+      return;
+    }
+
+    const edit: WorkspaceEdit = new WorkspaceEdit();
+    const previewUris: string[] = [];
+    try {
+      for (const fixFile of fix.files) {
+        const uri: Uri | undefined = fixFile.location.uri;
+        if (!fixFile.location.mapped || !uri) {
+          await window.showErrorMessage(
+            `Scan: Cannot apply the fix because '${fixFile.location.fileName}' could not be found.`
+          );
+          return;
+        }
+
+        const doc: TextDocument = await workspace.openTextDocument(uri);
+        for (const change of fixFile.changes) {
+          edit.replace(
+            uri,
+            doc.validateRange(change.delete),
+            change.insert || ""
+          );
+        }
+
+        const previewUri: Uri = uri.with({
+          scheme: FixController.PreviewScheme,
+          query: `${Date.now()}`,
+        });
+        previewUris.push(previewUri.toString());
+        this.proposedContents.set(
+          previewUri.toString(),
+          FixController.getFixedText(doc, fixFile)
+        );
+        await commands.executeCommand(
+          "vscode.diff",
+          uri,
+          previewUri,
+          `${fixFile.location.fileName} (Proposed fix)`,
+          { preview: true }
+        );
+      }
+
+      const choice: string | undefined = await window.showInformationMessage(
+        `Apply the fix '${fix.description.text || `Fix ${fixIndex + 1}`}'?`,
+        { modal: true },
+        "Apply"
+      );
+      if (choice !== "Apply") {
+        return;
+      }
+    } finally {
+      for (const previewUri of previewUris) {
+        this.proposedContents.delete(previewUri);
+      }
+    }
+
+    if (await workspace.applyEdit(edit)) {
+      this.explorerController.diagnosticCollection.remove(diagnostic);
+    } else {
+      await window.showErrorMessage(`Scan: The fix could not be applied.`);
+    }
+  }
+
+  /**
+   * Handles the apply fix requests from the Fixes tab of the webview
+   * @param message message from the webview
+   */
+  private async onWebviewMessage(message: WebviewMessage): Promise<void> {
+    if (message.type !== MessageType.ApplyFix) {
+      return;
+    }
+
+    const diagnostic: SarifViewerVsCodeDiagnostic | undefined = this
+      .explorerController.activeDiagnostic;
+    if (diagnostic) {
+      await this.applyFix(diagnostic, parseInt(message.data, 10));
+    }
+  }
+
+  /**
+   * Returns the text of the document with the changes of the fix applied
+   * @param doc document the fix applies to
+   * @param fixFile the fix changes for the document
+   */
+  private static getFixedText(doc: TextDocument, fixFile: FixFile): string {
+    let text: string = doc.getText();
+    // Apply the changes from the end of the document so the offsets stay valid
+    const changes: FixChange[] = fixFile.changes
+      .slice()
+      .sort((a, b) => b.delete.start.compareTo(a.delete.start));
+    for (const change of changes) {
+      const range: Range = doc.validateRange(change.delete);
+      text =
+        text.substring(0, doc.offsetAt(range.start)) +
+        (change.insert || "") +
+        text.substring(doc.offsetAt(range.end));
+    }
+
+    return text;
+  }
+}
@@ -0,0 +1,311 @@
+/**
+This file is part of Scan.
+
+Scan is free software: you can redistribute it and/or modify
+it under the terms of the GNU General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+Scan is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU General Public License for more details.
+
+You should have received a copy of the GNU General Public License
+along with Scan.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import { ChildProcess, execFile, spawn } from "child_process";
+import {
+  CancellationToken,
+  commands,
+  ConfigurationTarget,
+  Disposable,
+  OutputChannel,
+  ProgressLocation,
+  Uri,
+  window,
+  workspace,
+} from "vscode";
+import { Utilities } from "./Utilities";
+
+/**
+ * Result of looking up an image, the error output is set when the runtime failed rather than the image being missing
+ */
+export interface ImageLookup {
+  available: boolean;
+  // Ex. the cli isn't installed or the engine isn't running
+  errorOutput?: string;
+}
+
+/**
+ * Pulls the scan image with progress and loads it from an archive on the machines that can't pull
+ */
+export class ImageManager {
+  private static readonly configContainerImage = "containerImage";
+
+  // Time the runtime gets to look up an image before it's considered hung
+  private static readonly inspectTimeout: number = 15000;
+
+  // Errors of docker, podman and nerdctl for an image that isn't available locally
+  private static readonly missingImagePattern: RegExp = /no such (image|object)|image not known/i;
+
+  private static outputChannel: OutputChannel | undefined;
+
+  /**
+   * Checks that the image is available locally and lets the user pull or load it if it isn't,
+   * so a scan doesn't fail partway through or stall on a silent pull
+   *
+   * @param runtime Cli of the container runtime, ex. docker or podman
+   * @param image Container image the scan runs
+   * @returns whether the image is available, with the error output if the runtime couldn't look it up
+   */
+  public static async ensureImage(
+    runtime: string,
+    image: string
+  ): Promise<ImageLookup> {
+    const lookup: ImageLookup = await ImageManager.lookUpImage(runtime, image);
+    if (lookup.available || lookup.errorOutput !== undefined) {
+      return lookup;
+    }
+
+    const pull: string = "Pull";
+    const load: string = "Load from Archive";
+    const choice: string | undefined = await window.showWarningMessage(
+      `Scan: The scan image '${image}' isn't available locally.`,
+      pull,
+      load
+    );
+    if (choice === pull) {
+      return { available: await ImageManager.pullImage(runtime, image) };
+    }
+    if (choice === load && (await ImageManager.loadImage(runtime, image))) {
+      return ImageManager.lookUpImage(runtime, image);
+    }
+    return { available: false };
+  }
+
+  /**
+   * Looks up the image locally, telling an image that isn't there apart from a runtime that failed
+   *
+   * @param runtime Cli of the container runtime, ex. docker or podman
+   * @param image Container image
+   */
+  public static lookUpImage(
+    runtime: string,
+    image: string
+  ): Promise<ImageLookup> {
+    return new Promise<ImageLookup>((resolve) => {
+      execFile(
+        runtime,
+        ["image", "inspect", image],
+        { timeout: ImageManager.inspectTimeout },
+        (error, stdout, stderr) => {
+          if (!error) {
+            resolve({ available: true });
+          } else if (ImageManager.missingImagePattern.test(`${stderr}`)) {
+            resolve({ available: false });
+          } else {
+            // The error of a cli that couldn't be started, ex. spawn docker ENOENT, comes without output
+            resolve({
+              available: false,
+              errorOutput: `${stderr}`.trim() || error.message,
+            });
+          }
+        }
+      );
+    });
+  }
+
+  /**
+   * Pulls the image, reporting how many of its layers are done in a notification
+   *
+   * @param runtime Cli of the container runtime, ex. docker or podman
+   * @param image Container image to pull
+   * @returns true if the image was pulled
+   */
+  public static async pullImage(
+    runtime: string,
+    image: string
+  ): Promise<boolean> {
+    const layers: Set<string> = new Set<string>();
+    const doneLayers: Set<string> = new Set<string>();
+    let reported: number = 0;
+    const code: number = await window.withProgress(
+      {
+        cancellable: true,
+        location: ProgressLocation.Notification,
+        title: `Pulling ${image}`,
+      },
+      (progress, token) =>
+        ImageManager.run(runtime, ["pull", image], token, (line: string) => {
+          // docker prints "<layer>: Pull complete", podman prints "Copying blob <layer> done"
+          const match: RegExpMatchArray | null =
+            line.match(/^([0-9a-f]{12}): (.*)$/) ||
+            line.match(/^Copying blob (?:sha256:)?([0-9a-f]+)(.*)$/);
+          if (!match) {
+            return;
+          }
+          layers.add(match[1]);
+          if (/Pull complete|Already exists|done|skipped/i.test(match[2])) {
+            doneLayers.add(match[1]);
+          }
+          const percent: number = Math.floor(
+            (doneLayers.size / layers.size) * 100
+          );
+          progress.report({
+            increment: Math.max(percent - reported, 0),
+            message: `${doneLayers.size} of ${layers.size} layers`,
+          });
+          reported = Math.max(percent, reported);
+        })
+    );
+
+    if (code !== 0) {
+      await ImageManager.showFailure(`Scan: Pulling '${image}' has failed.`);
+      return false;
+    }
+    // tslint:disable-next-line: no-floating-promises
+    window.showInformationMessage(`Scan: Pulled '${image}'.`);
+    return true;
+  }
+
+  /**
+   * Loads an image from a .tar archive the user picks, ex. one saved with docker save on a machine that can pull
+   *
+   * @param runtime Cli of the container runtime, ex. docker or podman
+   * @param image Container image the scans use, the user can switch to the loaded image if it differs
+   * @returns true if the image was loaded
+   */
+  public static async loadImage(
+    runtime: string,
+    image: string
+  ): Promise<boolean> {
+    const archives: Uri[] | undefined = await window.showOpenDialog({
+      canSelectMany: false,
+      filters: { "Image archives": ["tar"] },
+      openLabel: "Load Image",
+    });
+    if (!archives || !archives.length) {
+      return false;
+    }
+
+    const loaded: string[] = [];
+    const code: number = await window.withProgress(
+      {
+        cancellable: true,
+        location: ProgressLocation.Notification,
+        title: `Loading ${archives[0].fsPath}`,
+      },
+      (progress, token) =>
+        ImageManager.run(
+          runtime,
+          ["load", "-i", archives[0].fsPath],
+          token,
+          (line: string) => {
+            const match: RegExpMatchArray | null = line.match(
+              /^Loaded images?: (.+)$/
+            );
+            if (match) {
+              loaded.push(match[1].trim());
+              progress.report({ message: match[1].trim() });
+            }
+          }
+        )
+    );
+
+    if (code !== 0) {
+      await ImageManager.showFailure(
+        `Scan: Loading '${archives[0].fsPath}' has failed.`
+      );
+      return false;
+    }
+
+    const other: string | undefined = loaded.find(
+      (name) => name !== image && name !== `docker.io/${image}`
+    );
+    if (other && loaded.length === 1) {
+      const use: string = "Use for Scans";
+      const choice: string | undefined = await window.showInformationMessage(
+        `Scan: Loaded '${other}'. The scans use '${image}'.`,
+        use
+      );
+      if (choice === use) {
+        await workspace
+          .getConfiguration(Utilities.configSection)
+          .update(
+            ImageManager.configContainerImage,
+            other,
+            ConfigurationTarget.Global
+          );
+      }
+    } else {
+      // tslint:disable-next-line: no-floating-promises
+      window.showInformationMessage(`Scan: Loaded '${loaded.join("', '")}'.`);
+    }
+    return true;
+  }
+
+  /**
+   * Runs a runtime command, writing its output to the output channel line by line
+   *
+   * @param runtime Cli of the container runtime
+   * @param args Arguments for the command
+   * @param token Cancellation token of the progress notification, kills the command
+   * @param onLine Callback invoked with each line of the output
+   * @returns exit code of the command, -1 if it couldn't be started or was cancelled
+   */
+  private static run(
+    runtime: string,
+    args: string[],
+    token: CancellationToken,
+    onLine: (line: string) => void
+  ): Promise<number> {
+    const outputChannel: OutputChannel = (ImageManager.outputChannel =
+      ImageManager.outputChannel || window.createOutputChannel("Scan Image"));
+    outputChannel.appendLine(`${runtime} ${args.join(" ")}`);
+    return new Promise<number>((resolve) => {
+      const proc: ChildProcess = spawn(runtime, args);
+      const cancellation: Disposable = token.onCancellationRequested(() =>
+        proc.kill()
+      );
+      let pending: string = "";
+      const onData: (data: Buffer) => void = (data: Buffer) => {
+        const lines: string[] = (pending + data.toString()).split(/\r?\n/);
+        pending = lines.pop() || "";
+        for (const line of lines) {
+          outputChannel.appendLine(line);
+          onLine(line.trim());
+        }
+      };
+      proc.stdout.on("data", onData);
+      proc.stderr.on("data", onData);
+      proc.on("error", (err: Error) => {
+        cancellation.dispose();
+        outputChannel.appendLine(err.message);
+      });
+      proc.on("close", (code: number | null) => {
+        cancellation.dispose();
+        if (pending) {
+          outputChannel.appendLine(pending);
+          onLine(pending.trim());
+        }
+        resolve(code === null ? -1 : code);
+      });
+    });
+  }
+
+  /**
+   * Shows the failure with the output of the command
+   *
+   * @param message Error message
+   */
+  private static async showFailure(message: string): Promise<void> {
+    if (ImageManager.outputChannel) {
+      ImageManager.outputChannel.show(true);
+    }
+    const check: string = "Check Environment";
+    if ((await window.showErrorMessage(message, check)) === check) {
+      await commands.executeCommand("extension.shiftleft.CheckEnvironment");
+    }
+  }
+}
@@ -0,0 +1,398 @@
+/**
+This file is part of Scan.
+
+Scan is free software: you can redistribute it and/or modify
+it under the terms of the GNU General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+Scan is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU General Public License for more details.
+
+You should have received a copy of the GNU General Public License
+along with Scan.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import * as sarif from "sarif";
+import { JsonMapping, JsonPointer } from "./common/Interfaces";
+
+// This module is also loaded by the parser worker process, so it can't depend on the vscode module
+
+type JsonValue = string | number | boolean | null | JsonObject | JsonValue[];
+
+interface JsonObject {
+  [key: string]: JsonValue;
+}
+
+interface JsonPosition {
+  line: number;
+  column: number;
+}
+
+enum ParserState {
+  Value,
+  ValueOrArrayEnd,
+  Key,
+  KeyOrObjectEnd,
+  Colon,
+  CommaOrEnd,
+  String,
+  Literal,
+  Done,
+}
+
+/**
+ * An open object or array with the info needed to record its pointer once it's closed
+ */
+interface ContainerFrame {
+  container: JsonObject | JsonValue[];
+  depth: number;
+  isArray: boolean;
+  key?: string;
+  pointer: string;
+  start: JsonPosition;
+}
+
+/**
+ * Incremental JSON parser that gets the text in chunks, so a log never has to be held in memory as a single string
+ * Records the same pointers (line and column of the start and end of a value) as json-source-map
+ */
+export class JsonStreamParser {
+  /**
+   * Pointers deeper than /runs/{run}/results/{result}/locations/0/physicalLocation are not used by the viewer
+   */
+  public static readonly SarifPointerDepth: number = 7;
+
+  private state: ParserState = ParserState.Value;
+  private readonly stack: ContainerFrame[] = [];
+  private readonly pointers: { [jsonPath: string]: JsonPointer } = {};
+  private root: JsonValue = null;
+
+  private line: number = 0;
+  private column: number = 0;
+  private position: number = 0;
+
+  /**
+   * Raw text of the string or literal (number, true, false, null) being parsed, it can span multiple chunks
+   */
+  private token: string = "";
+  private tokenIsKey: boolean = false;
+  private tokenEscaped: boolean = false;
+  private tokenPointer: string | undefined;
+  private tokenStart: JsonPosition = { column: 0, line: 0 };
+
+  /**
+   * @param maxPointerDepth pointers are only recorded for the values up to this depth, to limit the memory they use
+   */
+  public constructor(
+    private readonly maxPointerDepth: number = Number.MAX_SAFE_INTEGER
+  ) {}
+
+  /**
+   * Parses the next chunk of the JSON text
+   * @param chunk text to parse
+   */
+  public write(chunk: string): void {
+    let tokenStartIndex: number = 0;
+    for (let index: number = 0; index < chunk.length; index++) {
+      const char: string = chunk[index];
+
+      if (this.state === ParserState.String) {
+        if (this.tokenEscaped) {
+          this.tokenEscaped = false;
+        } else if (char === "\\") {
+          this.tokenEscaped = true;
+        } else if (char === '"') {
+          this.token += chunk.substring(tokenStartIndex, index);
+          this.advance(char);
+          this.endString();
+          continue;
+        }
+
+        this.advance(char);
+        continue;
+      }
+
+      if (this.state === ParserState.Literal) {
+        if (/[\w.+-]/.test(char)) {
+          this.advance(char);
+          continue;
+        }
+
+        this.token += chunk.substring(tokenStartIndex, index);
+        this.endLiteral();
+      }
+
+      if (char === " " || char === "\t" || char === "\n" || char === "\r") {
+        this.advance(char);
+        continue;
+      }
+
+      if (char === "\ufeff" && this.position === 0) {
+        this.advance(char);
+        continue;
+      }
+
+      switch (this.state) {
+        case ParserState.Value:
+        case ParserState.ValueOrArrayEnd:
+          if (char === "]" && this.state === ParserState.ValueOrArrayEnd) {
+            this.endContainer(char);
+          } else if (char === "{" || char === "[") {
+            this.startContainer(char);
+          } else if (char === '"') {
+            this.startToken(false);
+            this.advance(char);
+            tokenStartIndex = index + 1;
+            this.state = ParserState.String;
+          } else if (/[-\dtfn]/.test(char)) {
+            this.startToken(false);
+            this.advance(char);
+            tokenStartIndex = index;
+            this.state = ParserState.Literal;
+          } else {
+            this.throwUnexpected(char);
+          }
+          break;
+
+        case ParserState.Key:
+        case ParserState.KeyOrObjectEnd:
+          if (char === "}" && this.state === ParserState.KeyOrObjectEnd) {
+            this.endContainer(char);
+          } else if (char === '"') {
+            this.startToken(true);
+            this.advance(char);
+            tokenStartIndex = index + 1;
+            this.state = ParserState.String;
+          } else {
+            this.throwUnexpected(char);
+          }
+          break;
+
+        case ParserState.Colon:
+          if (char !== ":") {
+            this.throwUnexpected(char);
+          }
+          this.advance(char);
+          this.state = ParserState.Value;
+          break;
+
+        case ParserState.CommaOrEnd:
+          const frame: ContainerFrame = this.stack[this.stack.length - 1];
+          if (char === ",") {
+            this.advance(char);
+            this.state = frame.isArray ? ParserState.Value : ParserState.Key;
+          } else if (char === (frame.isArray ? "]" : "}")) {
+            this.endContainer(char);
+          } else {
+            this.throwUnexpected(char);
+          }
+          break;
+
+        default:
+          this.throwUnexpected(char);
+      }
+    }
+
+    if (
+      this.state === ParserState.String ||
+      this.state === ParserState.Literal
+    ) {
+      this.token += chunk.substring(tokenStartIndex);
+    }
+  }
+
+  /**
+   * Finishes the parsing and returns the parsed data with the pointers
+   */
+  public end(): JsonMapping {
+    if (this.state === ParserState.Literal) {
+      this.endLiteral();
+    }
+
+    if (this.state !== ParserState.Done) {
+      throw new Error("Unexpected end of JSON input");
+    }
+
+    return {
+      data: <sarif.Log>(<unknown>this.root),
+      pointers: this.pointers,
+    };
+  }
+
+  /**
+   * Moves the current position past the character
+   * @param char character that was parsed
+   */
+  private advance(char: string): void {
+    this.position++;
+    if (char === "\n") {
+      this.line++;
+      this.column = 0;
+    } else {
+      this.column++;
+    }
+  }
+
+  /**
+   * Returns the current position
+   */
+  private getPosition(): JsonPosition {
+    return { column: this.column, line: this.line };
+  }
+
+  /**
+   * Returns the pointer of the next value in the current container, undefined if it's too deep to be recorded
+   */
+  private getNextPointer(): string | undefined {
+    if (this.stack.length === 0) {
+      return "";
+    }
+
+    const frame: ContainerFrame = this.stack[this.stack.length - 1];
+    if (frame.depth >= this.maxPointerDepth) {
+      return undefined;
+    }
+
+    if (frame.isArray) {
+      return `${frame.pointer}/${(<JsonValue[]>frame.container).length}`;
+    }
+
+    const key: string = (frame.key || "")
+      .replace(/~/g, "~0")
+      .replace(/\//g, "~1");
+    return `${frame.pointer}/${key}`;
+  }
+
+  /**
+   * Records the pointer of a value
+   * @param pointer pointer of the value, not recorded if undefined
+   * @param start start position of the value
+   */
+  private recordPointer(
+    pointer: string | undefined,
+    start: JsonPosition
+  ): void {
+    if (pointer !== undefined) {
+      this.pointers[pointer] = { value: start, valueEnd: this.getPosition() };
+    }
+  }
+
+  /**
+   * Opens a new object or array
+   * @param char the opening bracket
+   */
+  private startContainer(char: string): void {
+    const pointer: string | undefined = this.getNextPointer();
+    const start: JsonPosition = this.getPosition();
+    this.advance(char);
+    this.stack.push({
+      container: char === "[" ? [] : {},
+      depth: this.stack.length,
+      isArray: char === "[",
+      // Containers below the max depth still need a pointer to build the pointers of their children
+      pointer: pointer === undefined ? "" : pointer,
+      start,
+    });
+    this.state =
+      char === "[" ? ParserState.ValueOrArrayEnd : ParserState.KeyOrObjectEnd;
+  }
+
+  /**
+   * Closes the current object or array
+   * @param char the closing bracket
+   */
+  private endContainer(char: string): void {
+    this.advance(char);
+    const frame: ContainerFrame | undefined = this.stack.pop();
+    if (!frame) {
+      this.throwUnexpected(char);
+      return;
+    }
+
+    this.recordPointer(
+      frame.depth > this.maxPointerDepth ? undefined : frame.pointer,
+      frame.start
+    );
+    this.addValue(frame.container);
+  }
+
+  /**
+   * Starts a string or literal token
+   * @param isKey flag if the token is the key of an object property
+   */
+  private startToken(isKey: boolean): void {
+    this.token = "";
+    this.tokenIsKey = isKey;
+    this.tokenEscaped = false;
+    this.tokenPointer = isKey ? undefined : this.getNextPointer();
+    this.tokenStart = this.getPosition();
+  }
+
+  /**
+   * Finishes the string token, either a key or a value
+   */
+  private endString(): void {
+    const value: string = JSON.parse(`"${this.token}"`);
+    this.token = "";
+    if (this.tokenIsKey) {
+      this.stack[this.stack.length - 1].key = value;
+      this.state = ParserState.Colon;
+      return;
+    }
+
+    this.recordPointer(this.tokenPointer, this.tokenStart);
+    this.addValue(value);
+  }
+
+  /**
+   * Finishes the literal token, a number, true, false or null
+   */
+  private endLiteral(): void {
+    let value: JsonValue;
+    try {
+      value = JSON.parse(this.token);
+    } catch (error) {
+      throw new Error(
+        `Unexpected token ${this.token} in JSON at position ${
+          this.position - this.token.length
+        }`
+      );
+    }
+
+    this.token = "";
+    this.recordPointer(this.tokenPointer, this.tokenStart);
+    this.addValue(value);
+  }
+
+  /**
+   * Adds the parsed value to the current container, or sets it as the root
+   * @param value parsed value
+   */
+  private addValue(value: JsonValue): void {
+    if (this.stack.length === 0) {
+      this.root = value;
+      this.state = ParserState.Done;
+      return;
+    }
+
+    const frame: ContainerFrame = this.stack[this.stack.length - 1];
+    if (frame.isArray) {
+      (<JsonValue[]>frame.container).push(value);
+    } else {
+      (<JsonObject>frame.container)[frame.key || ""] = value;
+    }
+    this.state = ParserState.CommaOrEnd;
+  }
+
+  /**
+   * Throws the error for an unexpected character
+   * @param char the unexpected character
+   */
+  private throwUnexpected(char: string): void {
+    throw new Error(
+      `Unexpected token ${char} in JSON at position ${this.position}`
+    );
+  }
+}
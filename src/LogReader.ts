@@ -14,6 +14,7 @@ You should have received a copy of the GNU General Public License
 along with Scan.  If not, see <https://www.gnu.org/licenses/>.
 */
 
+import { ChildProcess, fork, ForkOptions } from "child_process";
 import * as path from "path";
 import * as sarif from "sarif";
 
@@ -23,7 +24,11 @@ import { RunInfoFactory } from "./factories/RunInfoFactory";
 import { SVDiagnosticFactory } from "./factories/SVDiagnosticFactory";
 
 import {
+  commands,
+  ConfigurationChangeEvent,
   Disposable,
+  FileStat,
+  FileSystemWatcher,
   Progress,
   ProgressLocation,
   ProgressOptions,
@@ -31,6 +36,7 @@ import {
   Uri,
   window,
   workspace,
+  WorkspaceConfiguration,
 } from "vscode";
 import {
   JsonMap,
@@ -38,12 +44,16 @@ import {
   ResultInfo,
   RunInfo,
   Location,
+  SarifParserRequest,
+  SarifParserResponse,
 } from "./common/Interfaces";
 import { ProgressHelper } from "./ProgressHelper";
 import { ExplorerController } from "./ExplorerController";
 import { SarifViewerVsCodeDiagnostic } from "./SarifViewerDiagnostic";
 import { CodeFlowFactory } from "./factories/CodeFlowFactory";
 import { FileMapper } from "./FileMapper";
+import { JsonStreamParser } from "./JsonStreamParser";
+import { TriageController } from "./TriageController";
 import { Utilities } from "./Utilities";
 
 /**
@@ -52,6 +62,11 @@ import { Utilities } from "./Utilities";
 export class LogReader implements Disposable {
   private disposables: Disposable[] = [];
 
+  public static readonly LoadLogsCommand = "extension.shiftleft.LoadLogs";
+  public static readonly MergeLogsCommand = "extension.shiftleft.MergeLogs";
+  public static readonly UnloadLogsCommand = "extension.shiftleft.UnloadLogs";
+  public static readonly SetScanInfoCommand = "extension.shiftleft.SetScanInfo";
+
   /**
    * Contains a map between a parsed SARIF file (the key) to a JsonMapping object which contains
    * the result of the JSON parsing. This contains the actual SAIRF content and the "pointers" (which are like xpath's for XML)
@@ -62,22 +77,97 @@ export class LogReader implements Disposable {
     JsonMapping
   >();
 
+  /**
+   * Watchers for the report globs from the settings, recreated when the setting changes
+   */
+  private watchers: Disposable[] = [];
+
+  /**
+   * Pending reloads of the changed sarif files keyed by their path, tools tend to write the reports in several chunks
+   */
+  private readonly pendingReloads: Map<string, NodeJS.Timer> = new Map<
+    string,
+    NodeJS.Timer
+  >();
+
+  /**
+   * Modified time of the version of the sarif files that was read from disk, keyed by their uri
+   */
+  private readonly loadedVersions: Map<string, number> = new Map<
+    string,
+    number
+  >();
+
+  /**
+   * Parser processes of the local sarif files keyed by their path, killed when a newer reload replaces them
+   */
+  private readonly parserWorkers: Map<string, ChildProcess> = new Map<
+    string,
+    ChildProcess
+  >();
+
+  private static readonly reloadDelay: number = 1000;
+  private static readonly parserMemoryLimitMB: number = 4096;
+  private static readonly parserTimeoutMinutes: number = 5;
+  // Reports loaded from the workspace at most, a broad glob in a large repo would load every old report
+  private static readonly maxWorkspaceReports: number = 50;
+  private static readonly defaultReportGlobs: string[] = [
+    "**/reports/*.sarif",
+    "**/reports/*.sarif.json",
+  ];
+  private readonly configReportGlobs = "reportGlobs";
+
   public constructor(
     private readonly explorerController: ExplorerController,
-    private readonly fileMapper: FileMapper
+    private readonly fileMapper: FileMapper,
+    private readonly triageController: TriageController
   ) {
     // Listen for new sarif files to open or close
     this.disposables.push(
       workspace.onDidOpenTextDocument(this.onDocumentOpened.bind(this))
     );
+    this.disposables.push(
+      workspace.onDidChangeConfiguration(this.onSettingsChanged, this)
+    );
+    this.disposables.push(
+      commands.registerCommand(
+        LogReader.LoadLogsCommand,
+        this.loadLogs.bind(this)
+      )
+    );
+    this.disposables.push(
+      commands.registerCommand(
+        LogReader.MergeLogsCommand,
+        this.mergeLogs.bind(this)
+      )
+    );
+    this.disposables.push(
+      commands.registerCommand(
+        LogReader.UnloadLogsCommand,
+        this.unloadLogs.bind(this)
+      )
+    );
+    this.disposables.push(
+      commands.registerCommand(
+        LogReader.SetScanInfoCommand,
+        this.setScanInfo.bind(this)
+      )
+    );
+    this.createWatchers();
   }
 
   /**
    * For disposing on extension close
    */
   public dispose(): void {
-    Disposable.from(...this.disposables).dispose();
+    Disposable.from(...this.disposables, ...this.watchers).dispose();
     this.disposables = [];
+    this.watchers = [];
+    this.pendingReloads.forEach((timer) => clearTimeout(timer));
+    this.pendingReloads.clear();
+    for (const filePath of Array.from(this.parserWorkers.keys())) {
+      this.stopParser(filePath);
+    }
   }
 
   /**
@@ -85,25 +175,39 @@ export class LogReader implements Disposable {
    * @param doc document that was opened
    */
   public onDocumentOpened(doc: TextDocument): Promise<void> {
-    return Utilities.isSarifFile(doc)
+    // Logs that were already read from disk don't need to be read again
+    return Utilities.isSarifFile(doc) &&
+      !this.sarifJSONMapping.has(doc.uri.toString())
       ? this.read(doc, true)
       : Promise.resolve();
   }
 
   /**
-   * Method to find sarif files in the workspace
+   * Method to find sarif files in the workspace matching the report globs
+   * Only the first reports up to the limit are read, the user is told to narrow the globs if there are more
    */
   public async readWorkspace(): Promise<void> {
-    const sarifFiles: Uri[] = await workspace.findFiles(
-      "**/reports/*.sarif",
-      "**/node_modules/**",
-      3
-    );
-    if (sarifFiles && sarifFiles.length) {
-      for (const f in sarifFiles) {
-        await workspace.openTextDocument(sarifFiles[f]);
+    const sarifFiles: Map<string, Uri> = new Map<string, Uri>();
+    for (const reportGlob of this.getReportGlobs()) {
+      for (const sarifFile of await workspace.findFiles(
+        reportGlob,
+        "**/node_modules/**",
+        LogReader.maxWorkspaceReports + 1
+      )) {
+        sarifFiles.set(sarifFile.toString(), sarifFile);
       }
     }
+
+    const uris: Uri[] = Array.from(sarifFiles.values());
+    if (uris.length > LogReader.maxWorkspaceReports) {
+      // tslint:disable-next-line: no-floating-promises
+      window.showWarningMessage(
+        `Scan: More than ${LogReader.maxWorkspaceReports} reports match the Report Globs setting, only ${LogReader.maxWorkspaceReports} of them were loaded. Narrow the setting to the reports you need.`
+      );
+    }
+    for (const sarifFile of uris.slice(0, LogReader.maxWorkspaceReports)) {
+      await this.readFromDisk(sarifFile, true);
+    }
   }
 
   /**
@@ -127,99 +231,223 @@ export class LogReader implements Disposable {
   }
 
   /**
-   * Reads a sarif file, processing the results and adding them to the issues collection for display in problems panel
+   * Reads a sarif document, processing the results and adding them to the issues collection for display in problems panel
    * @param doc text document to read
    * @param sync Optional flag to sync the issues after reading this file
    */
   public async read(doc: TextDocument, sync?: boolean): Promise<void> {
     if (Utilities.isSarifFile(doc)) {
-      const pOptions: ProgressOptions = {
-        cancellable: false,
-        location: ProgressLocation.Notification,
-        title: "Processing " + path.basename(doc.fileName),
-      };
+      return this.readLog(
+        doc.uri,
+        async () => {
+          const jsonMap: JsonMap = require("json-source-map");
+          return jsonMap.parse(doc.getText());
+        },
+        sync
+      );
+    }
+  }
 
-      return window.withProgress(
-        pOptions,
-        async (
-          progress: Progress<{ message?: string; increment?: number }>,
-          cancleToken
-        ): Promise<void> => {
-          ProgressHelper.Instance.Progress = progress;
-          let runInfo: RunInfo;
-
-          let docMapping: JsonMapping;
-          await ProgressHelper.Instance.setProgressReport("Parsing Sarif file");
-          try {
-            const jsonMap: JsonMap = require("json-source-map");
-            docMapping = jsonMap.parse(doc.getText());
-          } catch (error) {
-            await window.showErrorMessage(
-              `Scan: Cannot display results for '${doc.fileName}' because: ${error.message}`
-            );
-            return;
-          }
+  /**
+   * Reads a sarif file straight from disk without opening it as a text document, so large logs don't hit the
+   * editor's limits. Local files are parsed in a separate process, a version that was already read is skipped
+   * @param uri Uri of the sarif file
+   * @param sync Optional flag to sync the issues after reading this file
+   */
+  public async readFromDisk(uri: Uri, sync?: boolean): Promise<void> {
+    let stat: FileStat;
+    try {
+      stat = await workspace.fs.stat(uri);
+    } catch (error) {
+      // The file got deleted in the meantime
+      return;
+    }
 
-          this.sarifJSONMapping.set(doc.uri.toString(), docMapping);
-          const log: sarif.Log = docMapping.data;
+    const key: string = uri.toString();
+    if (this.loadedVersions.get(key) === stat.mtime) {
+      return;
+    }
+    this.loadedVersions.set(key, stat.mtime);
 
-          if (!log.$schema) {
-            await window.showErrorMessage(`Scan:
-                        Cannot display results for '${doc.fileName}' because the schema was not defined.`);
-            return;
-          }
+    return this.readLog(
+      uri,
+      async () => {
+        try {
+          return uri.scheme === "file"
+            ? await this.parseInWorker(uri.fsPath)
+            : LogReader.parseContent(await workspace.fs.readFile(uri));
+        } catch (error) {
+          this.loadedVersions.delete(key);
+          throw error;
+        }
+      },
+      sync
+    );
+  }
+
+  /**
+   * Reads the sarif files from disk, ex. the reports of a scan
+   * @param uris Uris of the sarif files
+   */
+  public async loadLogs(uris: Uri[]): Promise<void> {
+    for (const uri of uris) {
+      await this.readFromDisk(uri, true);
+    }
+  }
+
+  /**
+   * Reads the sarif files of a scan that only covered some of the files, ex. an incremental scan
+   * The results previously read for those files are replaced, the results of the other files are kept
+   * @param uris Uris of the sarif files
+   * @param scannedFiles Uris of the files that were scanned
+   */
+  public async mergeLogs(uris: Uri[], scannedFiles: Uri[]): Promise<void> {
+    this.explorerController.diagnosticCollection.removeResultsInFiles(
+      scannedFiles
+    );
+    await this.loadLogs(uris);
+  }
 
-          for (
-            let runIndex: number = 0;
-            runIndex < log.runs.length;
-            runIndex++
-          ) {
-            const run: sarif.Run = log.runs[runIndex];
-            runInfo = RunInfoFactory.create(run, doc.fileName);
-            // A run itself does not actually have an ID in SARIF.
-            // One is manufactured for the "run" by adding it to the diagnostic collection.
-            runInfo.id = this.explorerController.diagnosticCollection.addRunInfoAndCalculateId(
-              runInfo
+  /**
+   * Removes the results of the sarif files, ex. when a later scan replaced them
+   * @param uris Uris of the sarif files
+   */
+  public unloadLogs(uris: Uri[]): void {
+    for (const uri of uris) {
+      this.onReportDeleted(uri);
+    }
+  }
+
+  /**
+   * Records the elapsed time, resource limits and app name of the scan that wrote the sarif files in the info of their runs
+   * @param uris Uris of the sarif files
+   * @param scanDuration Elapsed time of the scan
+   * @param scanLimits Resource limits the scan ran with
+   * @param appName Name of the application the scan ran for, the results list can group the results by it
+   */
+  public setScanInfo(
+    uris: Uri[],
+    scanDuration: string,
+    scanLimits: string,
+    appName?: string
+  ): void {
+    const runIds: number[] = [];
+    for (const uri of uris) {
+      for (const runInfo of this.explorerController.diagnosticCollection.getRunInfos(
+        uri.fsPath
+      )) {
+        runInfo.scanDuration = scanDuration;
+        runInfo.scanLimits = scanLimits;
+        runInfo.appName = appName;
+        runIds.push(runInfo.id);
+      }
+    }
+    // The rows of the results list were created before the app name was known
+    if (appName) {
+      this.explorerController.diagnosticCollection.refreshRuns(runIds);
+    }
+  }
+
+  /**
+   * Reads a sarif log, processing the results and adding them to the issues collection for display in problems panel
+   * The results previously read from the same log are removed first so they don't show up twice
+   * @param uri Uri of the sarif log
+   * @param parse parses the log into the data and the pointers to its elements
+   * @param sync Optional flag to sync the issues after reading this file
+   */
+  private async readLog(
+    uri: Uri,
+    parse: () => Promise<JsonMapping | undefined>,
+    sync?: boolean
+  ): Promise<void> {
+    const pOptions: ProgressOptions = {
+      cancellable: false,
+      location: ProgressLocation.Notification,
+      title: "Processing " + path.basename(uri.fsPath),
+    };
+
+    return window.withProgress(
+      pOptions,
+      async (
+        progress: Progress<{ message?: string; increment?: number }>,
+        cancleToken
+      ): Promise<void> => {
+        ProgressHelper.Instance.Progress = progress;
+        let runInfo: RunInfo;
+
+        let docMapping: JsonMapping | undefined;
+        await ProgressHelper.Instance.setProgressReport("Parsing Sarif file");
+        try {
+          docMapping = await parse();
+        } catch (error) {
+          await window.showErrorMessage(
+            `Scan: Cannot display results for '${uri.fsPath}' because: ${error.message}`
+          );
+          return;
+        }
+        // A newer read of the file replaced this one
+        if (!docMapping) {
+          return;
+        }
+
+        if (this.sarifJSONMapping.has(uri.toString())) {
+          this.explorerController.diagnosticCollection.removeRuns(uri.fsPath);
+        }
+        this.sarifJSONMapping.set(uri.toString(), docMapping);
+        const log: sarif.Log = docMapping.data;
+
+        if (!log.$schema) {
+          await window.showErrorMessage(`Scan:
+                        Cannot display results for '${uri.fsPath}' because the schema was not defined.`);
+          return;
+        }
+
+        for (let runIndex: number = 0; runIndex < log.runs.length; runIndex++) {
+          const run: sarif.Run = log.runs[runIndex];
+          runInfo = RunInfoFactory.create(run, uri.fsPath, runIndex);
+          // A run itself does not actually have an ID in SARIF.
+          // One is manufactured for the "run" by adding it to the diagnostic collection.
+          runInfo.id = this.explorerController.diagnosticCollection.addRunInfoAndCalculateId(
+            runInfo
+          );
+
+          if (run.threadFlowLocations) {
+            CodeFlowFactory.mapThreadFlowLocationsFromRun(
+              runInfo,
+              run.threadFlowLocations
             );
+          }
 
-            if (run.threadFlowLocations) {
-              CodeFlowFactory.mapThreadFlowLocationsFromRun(
-                runInfo,
-                run.threadFlowLocations
-              );
-            }
-
-            if (run.artifacts) {
-              await ProgressHelper.Instance.setProgressReport("Mapping Files");
-              await this.fileMapper.mapArtifacts(
-                runInfo,
-                run.artifacts,
-                runInfo.id
-              );
-            }
-
-            if (run.results) {
-              await ProgressHelper.Instance.setProgressReport(
-                `Loading ${run.results.length} Results`
-              );
-              await this.readResults(
-                runInfo,
-                run.results,
-                run.tool,
-                doc.uri,
-                runIndex
-              );
-            }
+          if (run.artifacts) {
+            await ProgressHelper.Instance.setProgressReport("Mapping Files");
+            await this.fileMapper.mapArtifacts(
+              runInfo,
+              run.artifacts,
+              runInfo.id
+            );
           }
 
-          if (sync) {
-            this.explorerController.diagnosticCollection.syncDiagnostics();
+          if (run.results) {
+            await ProgressHelper.Instance.setProgressReport(
+              `Loading ${run.results.length} Results`
+            );
+            await this.readResults(
+              runInfo,
+              run.results,
+              run.tool,
+              uri,
+              runIndex
+            );
           }
+        }
 
-          ProgressHelper.Instance.Progress = undefined;
+        if (sync) {
+          this.explorerController.diagnosticCollection.syncDiagnostics();
         }
-      );
-    }
+
+        ProgressHelper.Instance.Progress = undefined;
+      }
+    );
   }
 
   /**
@@ -287,6 +515,8 @@ export class LogReader implements Disposable {
         );
       }
 
+      this.triageController.applyDecision(resultInfo, sarifResult);
+
       const diagnostic: SarifViewerVsCodeDiagnostic = SVDiagnosticFactory.create(
         runInfo,
         resultInfo,
@@ -295,4 +525,195 @@ export class LogReader implements Disposable {
       this.explorerController.diagnosticCollection.add(diagnostic);
     }
   }
+
+  /**
+   * Returns the globs of the report files to watch and read from the settings
+   */
+  private getReportGlobs(): string[] {
+    const sarifConfig: WorkspaceConfiguration = workspace.getConfiguration(
+      Utilities.configSection
+    );
+    return sarifConfig.get(
+      this.configReportGlobs,
+      LogReader.defaultReportGlobs
+    );
+  }
+
+  /**
+   * Creates the file system watchers for the report globs, replacing the existing ones
+   */
+  private createWatchers(): void {
+    Disposable.from(...this.watchers).dispose();
+    this.watchers = [];
+
+    for (const reportGlob of this.getReportGlobs()) {
+      const watcher: FileSystemWatcher = workspace.createFileSystemWatcher(
+        reportGlob
+      );
+      watcher.onDidCreate(this.onReportChanged, this, this.watchers);
+      watcher.onDidChange(this.onReportChanged, this, this.watchers);
+      watcher.onDidDelete(this.onReportDeleted, this, this.watchers);
+      this.watchers.push(watcher);
+    }
+  }
+
+  /**
+   * Schedules the reload of a report that was created or rewritten
+   * @param uri Uri of the sarif file
+   */
+  private onReportChanged(uri: Uri): void {
+    if (!Utilities.isSarifFile(uri.fsPath)) {
+      return;
+    }
+
+    const pending: NodeJS.Timer | undefined = this.pendingReloads.get(
+      uri.fsPath
+    );
+    if (pending) {
+      clearTimeout(pending);
+    }
+
+    this.pendingReloads.set(
+      uri.fsPath,
+      setTimeout(() => {
+        this.pendingReloads.delete(uri.fsPath);
+        void this.readFromDisk(uri, true);
+      }, LogReader.reloadDelay)
+    );
+  }
+
+  /**
+   * Removes the results of a report that was deleted or unloaded
+   * @param uri Uri of the sarif file
+   */
+  private onReportDeleted(uri: Uri): void {
+    const pending: NodeJS.Timer | undefined = this.pendingReloads.get(
+      uri.fsPath
+    );
+    if (pending) {
+      clearTimeout(pending);
+      this.pendingReloads.delete(uri.fsPath);
+    }
+
+    this.sarifJSONMapping.delete(uri.toString());
+    this.loadedVersions.delete(uri.toString());
+    this.explorerController.diagnosticCollection.removeRuns(uri.fsPath);
+  }
+
+  /**
+   * Parses a local sarif file in a separate process, so the extension host doesn't freeze on large logs
+   * The process is killed if it takes too long, or when a newer read of the file or the disposal replaces it
+   * @param filePath path of the sarif file
+   * @returns the mapping of the log, undefined if the parse was replaced
+   */
+  private parseInWorker(filePath: string): Promise<JsonMapping | undefined> {
+    this.stopParser(filePath);
+    return new Promise<JsonMapping | undefined>((resolve, reject) => {
+      // The mapping is sent back structured cloned instead of as json, so the extension host doesn't parse
+      // a log sized string on its thread and the size of the log isn't capped by the max length of a string
+      // The node typings predate the serialization option
+      const options: ForkOptions & { serialization: string } = {
+        execArgv: [`--max-old-space-size=${LogReader.parserMemoryLimitMB}`],
+        serialization: "advanced",
+      };
+      const worker: ChildProcess = fork(
+        path.join(__dirname, "SarifParserWorker.js"),
+        [],
+        options
+      );
+      this.parserWorkers.set(filePath, worker);
+
+      let settled: boolean = false;
+      const settle: (callback: () => void) => void = (callback: () => void) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        clearTimeout(timer);
+        if (this.parserWorkers.get(filePath) === worker) {
+          this.parserWorkers.delete(filePath);
+        }
+        worker.kill();
+        callback();
+      };
+      const timer: NodeJS.Timer = setTimeout(
+        () =>
+          settle(() =>
+            reject(
+              new Error(
+                `parsing took longer than ${LogReader.parserTimeoutMinutes} minutes`
+              )
+            )
+          ),
+        LogReader.parserTimeoutMinutes * 60 * 1000
+      );
+
+      worker.on("message", (response: SarifParserResponse) =>
+        settle(() => {
+          if (response.mapping) {
+            resolve(response.mapping);
+          } else {
+            reject(new Error(response.error));
+          }
+        })
+      );
+      worker.on("error", (error: Error) => settle(() => reject(error)));
+      worker.on("exit", (code: number | null) => {
+        // The parser was stopped if it's no longer the one of the file
+        const replaced: boolean = this.parserWorkers.get(filePath) !== worker;
+        settle(() =>
+          replaced
+            ? resolve(undefined)
+            : reject(new Error(`The parser process exited with code ${code}`))
+        );
+      });
+
+      const request: SarifParserRequest = { filePath };
+      worker.send(request);
+    });
+  }
+
+  /**
+   * Kills the parser process of the sarif file, if one is running
+   * @param filePath path of the sarif file
+   */
+  private stopParser(filePath: string): void {
+    const worker: ChildProcess | undefined = this.parserWorkers.get(filePath);
+    if (worker) {
+      this.parserWorkers.delete(filePath);
+      worker.kill();
+    }
+  }
+
+  /**
+   * Parses the content of a sarif file that isn't on the local disk, ex. in a remote workspace
+   * @param content content of the sarif file
+   */
+  private static parseContent(content: Uint8Array): JsonMapping {
+    const parser: JsonStreamParser = new JsonStreamParser(
+      JsonStreamParser.SarifPointerDepth
+    );
+    parser.write(
+      Buffer.from(
+        content.buffer,
+        content.byteOffset,
+        content.byteLength
+      ).toString("utf8")
+    );
+    return parser.end();
+  }
+
+  /**
+   * Recreates the watchers when the report globs change in the settings
+   * @param event configuration change event
+   */
+  private onSettingsChanged(event: ConfigurationChangeEvent): void {
+    if (
+      event.affectsConfiguration(
+        `${Utilities.configSection}.${this.configReportGlobs}`
+      )
+    ) {
+      this.createWatchers();
+    }
+  }
 }
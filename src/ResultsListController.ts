@@ -14,7 +14,11 @@ You should have received a copy of the GNU General Public License
 along with Scan.  If not, see <https://www.gnu.org/licenses/>.
 */
 
+import * as fs from "fs";
+import * as path from "path";
+import * as sarif from "sarif";
 import {
+  commands,
   ConfigurationChangeEvent,
   Disposable,
   Position,
@@ -35,6 +39,8 @@ import {
   SeverityLevelOrder,
 } from "./common/Enums";
 import {
+  Baseline,
+  BaselineEntry,
   ResultInfo,
   ResultsListColumn,
   ResultsListCustomOrderValue,
@@ -56,6 +62,9 @@ import {
 } from "./SVDiagnosticCollection";
 import { Utilities } from "./Utilities";
 import { SarifViewerVsCodeDiagnostic } from "./SarifViewerDiagnostic";
+import { BaselineFactory } from "./factories/BaselineFactory";
+import { ResultInfoFactory } from "./factories/ResultInfoFactory";
+import { TriageController } from "./TriageController";
 
 /**
  * Class that acts as the data controller for the ResultsList in the Sarif Explorer
@@ -63,6 +72,15 @@ import { SarifViewerVsCodeDiagnostic } from "./SarifViewerDiagnostic";
 export class ResultsListController implements Disposable {
   private disposables: Disposable[] = [];
 
+  public static readonly SetBaselineCommand = "extension.shiftleft.SetBaseline";
+  public static readonly ClearBaselineCommand =
+    "extension.shiftleft.ClearBaseline";
+
+  /**
+   * Run id used for the rows of the baseline results that are absent from the current runs
+   */
+  private static readonly absentRunId: number = -1;
+
   private columns: { [key: string]: ResultsListColumn } = {};
 
   private groupBy: string = ResultsListController.defaultGroupBy;
@@ -80,6 +98,26 @@ export class ResultsListController implements Disposable {
   private filterText: string;
   private postFilterListRows: string[];
 
+  /**
+   * The baseline the results are compared against, if undefined the baseline state reported by the tool is used
+   */
+  private baseline: Baseline | undefined;
+
+  /**
+   * Flag to show the suppressed results, ex. the ones triaged as false positive, in the list
+   */
+  private showSuppressed: boolean = false;
+
+  /**
+   * Ids of the rows whose results violate the build break policy
+   */
+  private violationIds: Set<string> = new Set<string>();
+
+  /**
+   * Flag to only show the results that violate the build break policy in the list
+   */
+  private violationsOnly: boolean = false;
+
   private readonly configHideColumns = "resultsListHideColumns";
   private readonly configGroupBy = "resultsListGroupBy";
   private readonly configSortBy = "resultsListSortBy";
@@ -108,6 +146,18 @@ export class ResultsListController implements Disposable {
         this.onDiagnosticCollectionChanged.bind(this)
       )
     );
+    this.disposables.push(
+      commands.registerCommand(
+        ResultsListController.SetBaselineCommand,
+        this.setBaseline.bind(this)
+      )
+    );
+    this.disposables.push(
+      commands.registerCommand(
+        ResultsListController.ClearBaselineCommand,
+        this.clearBaseline.bind(this)
+      )
+    );
   }
 
   /**
@@ -149,7 +199,7 @@ export class ResultsListController implements Disposable {
         this.resultsListRows.set(id, row);
 
         const index: number = this.postFilterListRows.indexOf(id);
-        if (this.applyFilterToRow(row, regEx)) {
+        if (this.isRowShown(row) && this.applyFilterToRow(row, regEx)) {
           if (index === -1) {
             this.postFilterListRows.push(id);
           }
@@ -172,7 +222,14 @@ export class ResultsListController implements Disposable {
       case MessageType.ResultsListColumnToggled:
         const hideColsConfig: string[] = sarifConfig.get(
           this.configHideColumns,
-          ["baselineState", "rank", "logicalLocation", "resultStartPos"]
+          [
+            "baselineState",
+            "rank",
+            "logicalLocation",
+            "resultStartPos",
+            "workspaceFolder",
+            "appName",
+          ]
         );
         const index: number = hideColsConfig.indexOf(msg.data);
         if (index !== -1) {
@@ -198,6 +255,18 @@ export class ResultsListController implements Disposable {
         this.postDataToExplorer();
         break;
 
+      case MessageType.ResultsListShowSuppressedToggled:
+        this.showSuppressed = !this.showSuppressed;
+        this.updateFilteredRowsList();
+        this.postDataToExplorer();
+        break;
+
+      case MessageType.ResultsListViolationsOnlyToggled:
+        this.violationsOnly = !this.violationsOnly;
+        this.updateFilteredRowsList();
+        this.postDataToExplorer();
+        break;
+
       case MessageType.ResultsListGroupChanged:
         let groupByConfig: string | undefined = sarifConfig.get(
           this.configGroupBy
@@ -296,6 +365,61 @@ export class ResultsListController implements Disposable {
     }
   }
 
+  /**
+   * Asks the user for an earlier sarif log and compares the current results against it
+   */
+  public async setBaseline(): Promise<void> {
+    const selectedUris: Uri[] | undefined = await window.showOpenDialog({
+      canSelectMany: false,
+      filters: { SARIF: ["sarif", "json"] },
+      openLabel: "Set Baseline",
+    });
+    if (!selectedUris || selectedUris.length !== 1) {
+      return;
+    }
+
+    const baselinePath: string = selectedUris[0].fsPath;
+    let log: sarif.Log;
+    try {
+      log = JSON.parse(fs.readFileSync(baselinePath, "utf8"));
+    } catch (error) {
+      await window.showErrorMessage(
+        `Scan: Cannot use '${baselinePath}' as the baseline because: ${error.message}`
+      );
+      return;
+    }
+
+    this.baseline = BaselineFactory.create(log, baselinePath);
+    this.applyBaseline();
+    this.postDataToExplorer();
+
+    const counts: { [state: string]: number } = {};
+    this.resultsListRows.forEach((row: ResultsListRow) => {
+      const state: string = row.baselineState.value;
+      counts[state] = (counts[state] || 0) + 1;
+    });
+    await window.showInformationMessage(
+      `Scan: Compared with ${path.basename(baselinePath)}: ${
+        counts["new"] || 0
+      } new, ${counts["updated"] || 0} updated, ${
+        counts["unchanged"] || 0
+      } unchanged and ${counts["absent"] || 0} absent results.`
+    );
+  }
+
+  /**
+   * Removes the baseline, the results go back to the baseline state reported by the tool
+   */
+  public clearBaseline(): void {
+    if (!this.baseline) {
+      return;
+    }
+
+    this.baseline = undefined;
+    this.applyBaseline();
+    this.postDataToExplorer();
+  }
+
   /**
    * Gets the latest Result data, grouped and sorted and sends it to the Explorer Controller to send to the Explorer
    */
@@ -304,6 +428,119 @@ export class ResultsListController implements Disposable {
     this.explorerController.setResultsListData(data);
   }
 
+  /**
+   * Recomputes the baseline state of all of the results and adds rows for the baseline results that are absent
+   */
+  private applyBaseline(): void {
+    for (const key of Array.from(this.resultsListRows.keys())) {
+      const row: ResultsListRow | undefined = this.resultsListRows.get(key);
+      if (row && row.runId.value === ResultsListController.absentRunId) {
+        this.resultsListRows.delete(key);
+      }
+    }
+
+    if (this.baseline) {
+      BaselineFactory.reset(this.baseline);
+    }
+
+    const diagnostics: SarifViewerVsCodeDiagnostic[] = this.diagnosticCollection.getAllDiagnostics();
+    for (const diagnostic of diagnostics) {
+      diagnostic.resultInfo.baselineState = this.baseline
+        ? BaselineFactory.compare(
+            this.baseline,
+            diagnostic.rawResult,
+            diagnostic.resultInfo.ruleId
+          )
+        : diagnostic.rawResult.baselineState || "new";
+    }
+
+    // Recreate the rows so they pick up the new baseline state
+    this.updateResultsListData({ diagnostics, type: "Add" });
+
+    if (this.baseline) {
+      for (const [index, entry] of this.baseline.entries.entries()) {
+        if (!entry.matched) {
+          const row: ResultsListRow = this.createAbsentResultsListRow(
+            entry,
+            index
+          );
+          this.resultsListRows.set(
+            `${ResultsListController.absentRunId}_${index}`,
+            row
+          );
+        }
+      }
+    }
+
+    this.updateFilteredRowsList();
+  }
+
+  /**
+   * Creates a Result list row for a baseline result that is absent from the current runs
+   * @param entry The baseline entry of the result
+   * @param index Index of the entry in the baseline
+   */
+  private createAbsentResultsListRow(
+    entry: BaselineEntry,
+    index: number
+  ): ResultsListRow {
+    let startPosition: Position | undefined;
+    let startPositionString: string | undefined;
+    if (entry.region && entry.region.startLine) {
+      startPosition = new Position(
+        entry.region.startLine - 1,
+        (entry.region.startColumn || 1) - 1
+      );
+      startPositionString = `(${startPosition.line + 1}, ${
+        startPosition.character + 1
+      })`;
+    }
+
+    const baselineFile: string | undefined =
+      this.baseline && this.baseline.sarifFileName;
+    return {
+      baselineState: {
+        customOrderType: "Baseline",
+        order: BaselineOrder.absent,
+        value: "absent",
+      },
+      kind: {
+        customOrderType: "Kind",
+        order: KindOrder.fail,
+        value: "fail",
+      },
+      severityLevel: {
+        customOrderType: "Severity",
+        order: this.getSeverityOrder(entry.level || "warning"),
+        value: entry.level || "warning",
+      },
+      message: { value: entry.message },
+      resultStartPos: { pos: startPosition, value: startPositionString },
+      resultId: { value: index },
+      ruleId: { value: entry.ruleId },
+      ruleName: { value: undefined },
+      runId: { value: ResultsListController.absentRunId },
+      automationCat: { value: undefined },
+      automationId: { value: undefined },
+      sarifFile: {
+        value: baselineFile,
+        tooltip: this.baseline && this.baseline.sarifFileFullPath,
+      },
+      tool: { value: entry.toolName },
+      resultFile: {
+        tooltip: entry.file,
+        value: entry.file && path.posix.basename(entry.file),
+      },
+      logicalLocation: { value: undefined },
+      rank: { value: undefined },
+      suppression: { suppressed: false, value: undefined },
+      triage: { value: undefined },
+      justification: { value: undefined },
+      workspaceFolder: { value: undefined },
+      appName: { value: undefined },
+    };
+  }
+
   /**
    * Checks if the hide columns have changed in the settings
    * @param sarifConfig config object with the sarif settings
@@ -315,6 +552,8 @@ export class ResultsListController implements Disposable {
       "rank",
       "logicalLocation",
       "resultStartPos",
+      "workspaceFolder",
+      "appName",
     ]);
 
     for (const col in this.columns) {
@@ -415,21 +654,9 @@ export class ResultsListController implements Disposable {
         break;
     }
 
-    let sevOrder: SeverityLevelOrder = SeverityLevelOrder.error;
-    switch (resultInfo.severityLevel) {
-      case "error":
-        sevOrder = SeverityLevelOrder.error;
-        break;
-      case "warning":
-        sevOrder = SeverityLevelOrder.warning;
-        break;
-      case "none":
-        sevOrder = SeverityLevelOrder.none;
-        break;
-      case "note":
-        sevOrder = SeverityLevelOrder.note;
-        break;
-    }
+    const sevOrder: SeverityLevelOrder = this.getSeverityOrder(
+      resultInfo.severityLevel
+    );
 
     let resultFileName: string | undefined;
     let resultFsPath: string | undefined;
@@ -486,9 +713,55 @@ export class ResultsListController implements Disposable {
       resultFile: { tooltip: resultFsPath, value: resultFileName },
       logicalLocation: { value: logicalLocation },
       rank: { value: resultInfo.rank },
+      suppression: {
+        suppressed: ResultInfoFactory.isSuppressed(resultInfo),
+        tooltip:
+          resultInfo.suppression &&
+          `${resultInfo.suppression.status}${
+            resultInfo.suppression.justification
+              ? `: ${resultInfo.suppression.justification}`
+              : ""
+          }`,
+        value: resultInfo.suppression && resultInfo.suppression.kind,
+      },
+      triage: {
+        value:
+          resultInfo.suppression &&
+          resultInfo.suppression.triage &&
+          TriageController.StatusLabels[resultInfo.suppression.triage],
+      },
+      justification: {
+        value: resultInfo.suppression && resultInfo.suppression.justification,
+      },
+      workspaceFolder: { value: run && run.workspaceFolder },
+      appName: { value: run && run.appName },
     };
   }
 
+  /**
+   * Translates the severity level to its sort order
+   * @param level severity level of the result
+   */
+  private getSeverityOrder(level: sarif.Result.level): SeverityLevelOrder {
+    let sevOrder: SeverityLevelOrder = SeverityLevelOrder.error;
+    switch (level) {
+      case "error":
+        sevOrder = SeverityLevelOrder.error;
+        break;
+      case "warning":
+        sevOrder = SeverityLevelOrder.warning;
+        break;
+      case "none":
+        sevOrder = SeverityLevelOrder.none;
+        break;
+      case "note":
+        sevOrder = SeverityLevelOrder.note;
+        break;
+    }
+
+    return sevOrder;
+  }
+
   /**
    * Applies the latest filter text and settings to the resultslistrows and adds any matching rows to filteredlistrows
    */
@@ -498,6 +771,10 @@ export class ResultsListController implements Disposable {
     const regEx: RegExp = this.generateFilterRegExp();
 
     this.resultsListRows.forEach((row: ResultsListRow, key: string) => {
+      if (!this.isRowShown(row)) {
+        return;
+      }
+
       if (
         this.filterText === "" ||
         this.applyFilterToRow(row, regEx) === true
@@ -507,6 +784,65 @@ export class ResultsListController implements Disposable {
     });
   }
 
+  /**
+   * Sets the results that violate the build break policy, the list can be filtered down to them
+   * @param diagnostics diagnostics of the violating results
+   */
+  public setViolations(diagnostics: SarifViewerVsCodeDiagnostic[]): void {
+    const violationIds: Set<string> = new Set<string>(
+      diagnostics.map(
+        (diagnostic) =>
+          `${diagnostic.resultInfo.runId}_${diagnostic.resultInfo.id}`
+      )
+    );
+    if (
+      violationIds.size === this.violationIds.size &&
+      Array.from(violationIds).every((id) => this.violationIds.has(id))
+    ) {
+      return;
+    }
+
+    this.violationIds = violationIds;
+    if (!this.violationIds.size) {
+      this.violationsOnly = false;
+    }
+    this.updateFilteredRowsList();
+    this.postDataToExplorer();
+  }
+
+  /**
+   * Filters the list down to the results that violate the build break policy
+   */
+  public showViolations(): void {
+    this.violationsOnly = this.violationIds.size > 0;
+    this.updateFilteredRowsList();
+    this.postDataToExplorer();
+  }
+
+  /**
+   * Checks if the row is shown in the list, suppressed results are only shown when toggled on,
+   * the results of the hidden runs aren't shown
+   * and only the violating results are shown when the list is filtered to the policy violations
+   * @param row Row that is being checked
+   */
+  private isRowShown(row: ResultsListRow): boolean {
+    return (
+      (this.showSuppressed || !this.isRowSuppressed(row)) &&
+      (row.runId.value === undefined ||
+        !this.diagnosticCollection.isRunHidden(row.runId.value)) &&
+      (!this.violationsOnly ||
+        this.violationIds.has(`${row.runId.value}_${row.resultId.value}`))
+    );
+  }
+
+  /**
+   * Checks if the result of the row is suppressed
+   * @param row Row that is being checked
+   */
+  private isRowSuppressed(row: ResultsListRow): boolean {
+    return row.suppression.suppressed;
+  }
+
   /**
    * Applies the filter regexp to certian columns in the passed in row, if any match returns true
    * @param row Row that is being checked for a filter match
@@ -525,6 +861,12 @@ export class ResultsListController implements Disposable {
       (row["resultFile"].value && regExp.test(row["resultFile"].value)) ||
       (row["sarifFile"].value && regExp.test(row["sarifFile"].value)) ||
       (row["tool"].value && regExp.test(row["tool"].value)) ||
+      (row["workspaceFolder"].value &&
+        regExp.test(row["workspaceFolder"].value)) ||
+      (row["appName"].value && regExp.test(row["appName"].value)) ||
+      (row["suppression"].value && regExp.test(row["suppression"].value)) ||
+      (row["triage"].value && regExp.test(row["triage"].value)) ||
+      (row["justification"].value && regExp.test(row["justification"].value)) ||
       (row["logicalLocation"].value &&
         regExp.test(row["logicalLocation"].value))
     ) {
@@ -559,9 +901,19 @@ export class ResultsListController implements Disposable {
       groupBy: this.groupBy,
       groups: [],
       resultCount: this.resultsListRows.size,
+      showSuppressed: this.showSuppressed,
       sortBy: this.sortBy,
+      suppressedCount: 0,
+      violationCount: this.violationIds.size,
+      violationsOnly: this.violationsOnly,
     };
 
+    this.resultsListRows.forEach((row: ResultsListRow) => {
+      if (this.isRowSuppressed(row)) {
+        data.suppressedCount++;
+      }
+    });
+
     const groups: Map<string, ResultsListGroup> = new Map<
       string,
       ResultsListGroup
@@ -702,6 +1054,37 @@ export class ResultsListController implements Disposable {
         hide: false,
         title: "Severity",
       },
+
+      suppression: <ResultsListColumn>{
+        description:
+          "How the result is suppressed, in the source or in an external file.",
+        hide: false,
+        title: "Suppression",
+      },
+
+      triage: <ResultsListColumn>{
+        description: "Triage decision made for the result",
+        hide: false,
+        title: "Triage",
+      },
+
+      justification: <ResultsListColumn>{
+        description: "Justification of the suppression",
+        hide: false,
+        title: "Justification",
+      },
+
+      workspaceFolder: <ResultsListColumn>{
+        description: "Workspace folder the sarif file is in",
+        hide: false,
+        title: "Workspace Folder",
+      },
+
+      appName: <ResultsListColumn>{
+        description: "Application the scan that found the result ran for",
+        hide: false,
+        title: "Application",
+      },
     };
   }
 
@@ -710,6 +1093,9 @@ export class ResultsListController implements Disposable {
   ): void {
     switch (diagnosticChangeEvent.type) {
       case "Synchronize":
+        if (this.baseline) {
+          this.applyBaseline();
+        }
         this.postDataToExplorer();
         break;
 
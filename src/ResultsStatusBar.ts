@@ -0,0 +1,197 @@
+/**
+This file is part of Scan.
+
+Scan is free software: you can redistribute it and/or modify
+it under the terms of the GNU General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+Scan is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU General Public License for more details.
+
+You should have received a copy of the GNU General Public License
+along with Scan.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import * as path from "path";
+import {
+  commands,
+  Disposable,
+  QuickPickItem,
+  StatusBarAlignment,
+  StatusBarItem,
+  window,
+} from "vscode";
+import { ResultInfo, RunInfo } from "./common/Interfaces";
+import { ExplorerController } from "./ExplorerController";
+import { ResultInfoFactory } from "./factories/ResultInfoFactory";
+import { Scan } from "./Scan";
+import { SVDiagnosticCollection } from "./SVDiagnosticCollection";
+
+/**
+ * Number of results of each level
+ */
+interface LevelCounts {
+  error: number;
+  warning: number;
+  note: number;
+}
+
+/**
+ * Shows the number of results by severity in the status bar, so there's a signal without opening the explorer
+ * A spinner is shown while a scan runs, the counts per run can be shown and the runs hidden from a quick pick
+ */
+export class ResultsStatusBar implements Disposable {
+  private disposables: Disposable[] = [];
+
+  public static readonly ShowResultsByRunCommand =
+    "extension.shiftleft.ShowResultsByRun";
+
+  private readonly statusBarItem: StatusBarItem;
+
+  public constructor(
+    private readonly diagnosticCollection: SVDiagnosticCollection
+  ) {
+    this.statusBarItem = window.createStatusBarItem(
+      StatusBarAlignment.Left,
+      11
+    );
+    this.statusBarItem.command = ExplorerController.ExplorerLaunchCommand;
+    this.disposables.push(this.statusBarItem);
+
+    this.disposables.push(
+      diagnosticCollection.diagnosticCollectionChanged((event) => {
+        if (event.type === "Synchronize") {
+          this.update();
+        }
+      })
+    );
+    this.disposables.push(Scan.onScanStarted(this.update, this));
+    this.disposables.push(Scan.onScanCompleted(this.update, this));
+    this.disposables.push(
+      commands.registerCommand(
+        ResultsStatusBar.ShowResultsByRunCommand,
+        this.showResultsByRun.bind(this)
+      )
+    );
+    this.update();
+  }
+
+  /**
+   * For disposing on extension close
+   */
+  public dispose(): void {
+    Disposable.from(...this.disposables).dispose();
+    this.disposables = [];
+  }
+
+  /**
+   * Shows the counts of the results of the runs that aren't hidden, ex. $(error) 2 $(warning) 5 $(info) 1
+   * and the spinner while a scan is running
+   */
+  private update(): void {
+    const scanRunning: boolean = Scan.isScanRunning();
+    if (!scanRunning && !this.diagnosticCollection.getRunCount()) {
+      this.statusBarItem.hide();
+      return;
+    }
+
+    const counts: LevelCounts = this.countResults(
+      this.diagnosticCollection
+        .getAllDiagnostics()
+        .map((diagnostic) => diagnostic.resultInfo)
+        .filter(
+          (resultInfo) =>
+            !this.diagnosticCollection.isRunHidden(resultInfo.runId)
+        )
+    );
+    const text: string = `$(error) ${counts.error} $(warning) ${counts.warning} $(info) ${counts.note}`;
+    this.statusBarItem.text = scanRunning
+      ? `$(sync~spin) Scanning ${text}`
+      : text;
+    this.statusBarItem.tooltip = `${scanRunning ? "Scan in progress. " : ""}${
+      counts.error
+    } errors, ${counts.warning} warnings, ${
+      counts.note
+    } notes. Click to open the Scan explorer.`;
+    this.statusBarItem.show();
+  }
+
+  /**
+   * Lists the counts per run and lets the user pick the runs whose results are shown
+   */
+  private async showResultsByRun(): Promise<void> {
+    const runInfos: RunInfo[] = this.diagnosticCollection.getAllRunInfos();
+    if (!runInfos.length) {
+      await window.showInformationMessage(
+        "Scan: There are no results loaded. Perform a scan or open a sarif file."
+      );
+      return;
+    }
+
+    interface RunQuickPickItem extends QuickPickItem {
+      runInfo: RunInfo;
+    }
+
+    const resultInfos: ResultInfo[] = this.diagnosticCollection
+      .getAllDiagnostics()
+      .map((diagnostic) => diagnostic.resultInfo);
+    const picked: RunQuickPickItem[] | undefined = await window.showQuickPick(
+      runInfos.map((runInfo) => {
+        const counts: LevelCounts = this.countResults(
+          resultInfos.filter((resultInfo) => resultInfo.runId === runInfo.id)
+        );
+        return {
+          description: `${counts.error} errors, ${counts.warning} warnings, ${counts.note} notes`,
+          detail: [runInfo.appName, path.basename(runInfo.sarifFileFullPath)]
+            .filter((part) => !!part)
+            .join(" · "),
+          label: runInfo.toolName,
+          picked: !this.diagnosticCollection.isRunHidden(runInfo.id),
+          runInfo,
+        };
+      }),
+      {
+        canPickMany: true,
+        matchOnDetail: true,
+        placeHolder: "Select the runs whose results are shown",
+      }
+    );
+    if (!picked) {
+      return;
+    }
+
+    for (const runInfo of runInfos) {
+      this.diagnosticCollection.setRunHidden(
+        runInfo.id,
+        !picked.some((item) => item.runInfo === runInfo)
+      );
+    }
+  }
+
+  /**
+   * Counts the results that aren't suppressed by level, the level of a result defaults to warning
+   * as in sarif and the level none counts as a note
+   * @param resultInfos results to count
+   */
+  private countResults(resultInfos: ResultInfo[]): LevelCounts {
+    const counts: LevelCounts = { error: 0, note: 0, warning: 0 };
+    for (const resultInfo of resultInfos) {
+      if (ResultInfoFactory.isSuppressed(resultInfo)) {
+        continue;
+      }
+      switch (resultInfo.severityLevel) {
+        case "error":
+          counts.error++;
+          break;
+        case "warning":
+          counts.warning++;
+          break;
+        default:
+          counts.note++;
+      }
+    }
+    return counts;
+  }
+}
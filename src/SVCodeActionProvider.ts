@@ -17,12 +17,16 @@ along with Scan.  If not, see <https://www.gnu.org/licenses/>.
 import * as vscode from "vscode";
 import { ExplorerController } from "./ExplorerController";
 import { FileMapper } from "./FileMapper";
+import { FixController } from "./FixController";
 import { SarifViewerVsCodeDiagnostic } from "./SarifViewerDiagnostic";
+import { TriageController } from "./TriageController";
+import { TriageStatus } from "./common/Interfaces";
 import * as sarif from "sarif";
 
 /**
  * A codeactionprovider for the SARIF extension that handles updating the Explorer when the result focus changes
  * Also adds the Map to Source fix for the results that were not able to be mapped previously
+ * an Apply Fix action for each of the fixes provided with the result and the triage actions
  */
 export class SVCodeActionProvider
   implements vscode.CodeActionProvider, vscode.Disposable {
@@ -126,6 +130,54 @@ export class SVCodeActionProvider
       }
     }
 
+    for (const [fixIndex, fix] of svDiagnostic.resultInfo.fixes.entries()) {
+      const title: string = `Apply fix: ${
+        fix.description.text || `Fix ${fixIndex + 1}`
+      }`;
+      actions.push({
+        command: {
+          arguments: [svDiagnostic, fixIndex],
+          command: FixController.ApplyFixCommand,
+          title,
+        },
+        diagnostics: [svDiagnostic],
+        kind: vscode.CodeActionKind.QuickFix,
+        title,
+      });
+    }
+
+    for (const status of Object.keys(TriageController.StatusLabels)) {
+      const title: string = `Triage: Mark as ${TriageController.StatusLabels[
+        <TriageStatus>status
+      ].toLowerCase()}`;
+      actions.push({
+        command: {
+          arguments: [svDiagnostic, status],
+          command: TriageController.TriageCommand,
+          title,
+        },
+        diagnostics: [svDiagnostic],
+        kind: vscode.CodeActionKind.QuickFix,
+        title,
+      });
+    }
+
+    if (
+      svDiagnostic.resultInfo.suppression &&
+      svDiagnostic.resultInfo.suppression.triage
+    ) {
+      actions.push({
+        command: {
+          arguments: [svDiagnostic, null],
+          command: TriageController.TriageCommand,
+          title: "Triage: Clear decision",
+        },
+        diagnostics: [svDiagnostic],
+        kind: vscode.CodeActionKind.QuickFix,
+        title: "Triage: Clear decision",
+      });
+    }
+
     return actions;
   }
 }
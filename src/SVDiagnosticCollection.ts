@@ -14,8 +14,11 @@ You should have received a copy of the GNU General Public License
 along with Scan.  If not, see <https://www.gnu.org/licenses/>.
 */
 
+import { sep } from "path";
 import { SVDiagnosticFactory } from "./factories/SVDiagnosticFactory";
+import { ResultInfoFactory } from "./factories/ResultInfoFactory";
 import {
+  ConfigurationChangeEvent,
   Diagnostic,
   DiagnosticCollection,
   DiagnosticSeverity,
@@ -65,6 +68,13 @@ export class SVDiagnosticCollection implements Disposable {
   > = new Map<string, SarifViewerVsCodeDiagnostic[]>();
   private runInfoCollection: RunInfo[] = [];
 
+  /**
+   * Ids of the runs whose results are hidden from the problems panel and the results list
+   */
+  private readonly hiddenRunIds: Set<number> = new Set<number>();
+
+  private readonly configShowSuppressedInProblems = "showSuppressedInProblems";
+
   private diagnosticCollectionChangedEventEmitter: EventEmitter<
     SVDiagnosticsChangedEvent
   > = new EventEmitter<SVDiagnosticsChangedEvent>();
@@ -88,6 +98,9 @@ export class SVDiagnosticCollection implements Disposable {
       this.fileMapper.onMappingChanged(this.mappingChanged.bind(this))
     );
     this.disposables.push(this.fileMapper);
+    this.disposables.push(
+      workspace.onDidChangeConfiguration(this.onSettingsChanged, this)
+    );
     if (typeof workspace.onDidDeleteFiles === "function") {
       this.disposables.push(
         workspace.onDidDeleteFiles(this.onDocumentDeleted.bind(this))
@@ -136,6 +149,71 @@ export class SVDiagnosticCollection implements Disposable {
     });
   }
 
+  /**
+   * Removes a single diagnostic from the collection, ex. when its result got fixed
+   * @param issue diagnostic that needs to be removed from the problems panel
+   */
+  public remove(issue: SarifViewerVsCodeDiagnostic): void {
+    for (const collection of [
+      this.mappedIssuesCollection,
+      this.unmappedIssuesCollection,
+    ]) {
+      for (const [key, issues] of collection.entries()) {
+        const index: number = issues.indexOf(issue);
+        if (index === -1) {
+          continue;
+        }
+
+        issues.splice(index, 1);
+        if (issues.length === 0) {
+          collection.delete(key);
+        }
+      }
+    }
+
+    this.diagnosticCollectionChangedEventEmitter.fire({
+      diagnostics: [issue],
+      type: "Remove",
+    });
+    this.syncDiagnostics();
+  }
+
+  /**
+   * Notifies the listeners that the diagnostics of the runs changed, ex. when the info of the runs got updated
+   * @param runIds ids of the runs
+   */
+  public refreshRuns(runIds: number[]): void {
+    const issues: SarifViewerVsCodeDiagnostic[] = [];
+    for (const collection of [
+      this.mappedIssuesCollection,
+      this.unmappedIssuesCollection,
+    ]) {
+      for (const fileIssues of collection.values()) {
+        for (const issue of fileIssues) {
+          if (runIds.indexOf(issue.resultInfo.runId) !== -1) {
+            issues.push(issue);
+          }
+        }
+      }
+    }
+    if (issues.length) {
+      this.refresh(issues);
+    }
+  }
+
+  /**
+   * Notifies the listeners that the diagnostics changed, ex. when their result got triaged
+   * and syncs them with the problems panel
+   * @param issues diagnostics whose result info changed
+   */
+  public refresh(issues: SarifViewerVsCodeDiagnostic[]): void {
+    this.diagnosticCollectionChangedEventEmitter.fire({
+      diagnostics: issues,
+      type: "Add",
+    });
+    this.syncDiagnostics();
+  }
+
   /**
    * Adds a RunInfo object to the runinfo collection and returns it's id
    * @param runInfo RunInfo object to add to the collection
@@ -160,6 +238,7 @@ export class SVDiagnosticCollection implements Disposable {
     this.mappedIssuesCollection.clear();
     this.unmappedIssuesCollection.clear();
     this.runInfoCollection.length = 0;
+    this.hiddenRunIds.clear();
   }
 
   /**
@@ -174,6 +253,57 @@ export class SVDiagnosticCollection implements Disposable {
     return unmapped;
   }
 
+  /**
+   * Gets a flat array of all the diagnostics, mapped and unmapped
+   */
+  public getAllDiagnostics(): SarifViewerVsCodeDiagnostic[] {
+    const diagnostics: SarifViewerVsCodeDiagnostic[] = [];
+    this.mappedIssuesCollection.forEach((value) => {
+      diagnostics.push(...value);
+    });
+
+    return diagnostics.concat(this.getAllUnmappedDiagnostics());
+  }
+
+  /**
+   * Returns the number of runs read from the sarif files
+   */
+  public getRunCount(): number {
+    return this.runInfoCollection.length;
+  }
+
+  /**
+   * Returns the runinfos of all the runs read from the sarif files
+   */
+  public getAllRunInfos(): RunInfo[] {
+    return this.runInfoCollection.slice();
+  }
+
+  /**
+   * Checks if the results of the run are hidden
+   * @param runId Id of the run
+   */
+  public isRunHidden(runId: number): boolean {
+    return this.hiddenRunIds.has(runId);
+  }
+
+  /**
+   * Hides or shows the results of the run in the problems panel and the results list
+   * @param runId Id of the run
+   * @param hidden true to hide the results of the run
+   */
+  public setRunHidden(runId: number, hidden: boolean): void {
+    if (this.hiddenRunIds.has(runId) === hidden) {
+      return;
+    }
+    if (hidden) {
+      this.hiddenRunIds.add(runId);
+    } else {
+      this.hiddenRunIds.delete(runId);
+    }
+    this.refreshRuns([runId]);
+  }
+
   /**
    * Gets and returns a Result based on it's run and result Id
    * @param resultId Id of the result
@@ -220,6 +350,16 @@ export class SVDiagnosticCollection implements Disposable {
     });
   }
 
+  /**
+   * Returns the runinfos of the runs read from the sarif file
+   * @param path Path (including file) of the sarif file
+   */
+  public getRunInfos(path: string): RunInfo[] {
+    return this.runInfoCollection.filter(
+      (runInfo) => runInfo.sarifFileFullPath === path
+    );
+  }
+
   /**
    * Callback to handle whenever a mapping in the FileMapper changes
    * Goes through the diagnostics and tries to remap their locations, if not able to it gets left in the unmapped
@@ -271,6 +411,7 @@ export class SVDiagnosticCollection implements Disposable {
     for (let i: number = this.runInfoCollection.length - 1; i >= 0; i--) {
       if (this.runInfoCollection[i].sarifFileFullPath === path) {
         runsToRemove.push(this.runInfoCollection[i].id);
+        this.hiddenRunIds.delete(this.runInfoCollection[i].id);
         this.runInfoCollection.splice(i, 1);
       }
     }
@@ -280,6 +421,40 @@ export class SVDiagnosticCollection implements Disposable {
     this.syncDiagnostics();
   }
 
+  /**
+   * Removes the results located in the files, ex. before merging the results of a scan of those files
+   * The results located anywhere under a directory are removed when a directory is passed
+   * @param uris Uris of the files or directories
+   */
+  public removeResultsInFiles(uris: Uri[]): void {
+    let diagnosticsRemoved: SarifViewerVsCodeDiagnostic[] = [];
+    for (const uri of uris) {
+      const key: string = Utilities.getFsPathWithFragment(uri);
+      const dirPrefix: string = key.endsWith(sep) ? key : key + sep;
+      for (const collection of [
+        this.mappedIssuesCollection,
+        this.unmappedIssuesCollection,
+      ]) {
+        for (const fileKey of Array.from(collection.keys())) {
+          if (fileKey === key || fileKey.startsWith(dirPrefix)) {
+            diagnosticsRemoved = diagnosticsRemoved.concat(
+              collection.get(fileKey) || []
+            );
+            collection.delete(fileKey);
+          }
+        }
+      }
+    }
+
+    if (diagnosticsRemoved.length > 0) {
+      this.diagnosticCollectionChangedEventEmitter.fire({
+        diagnostics: diagnosticsRemoved,
+        type: "Remove",
+      });
+    }
+    this.syncDiagnostics();
+  }
+
   /**
    * Does the actual action of adding the passed in diagnostic into the passed in collection
    * @param collection dictionary to add the diagnostic to
@@ -313,14 +488,24 @@ export class SVDiagnosticCollection implements Disposable {
   /**
    * Does the work to add the collection into the DiagnosticsCollection used for displaying in the problems panel
    * Handles if the size is larger then the max we stop 1 short and add our custom message as the final diagnostic
+   * Suppressed results are not shown in the problems panel unless it's turned on in the settings
    * @param collection dictionary of diagnostics that need to be added to the panel
    */
   private addToDiagnosticCollection(
     collection: Map<string, SarifViewerVsCodeDiagnostic[]>
   ): void {
-    for (const issues of collection.values()) {
+    const showSuppressed: boolean = workspace
+      .getConfiguration(Utilities.configSection)
+      .get(this.configShowSuppressedInProblems, false);
+    for (const allIssues of collection.values()) {
+      const issues: SarifViewerVsCodeDiagnostic[] = allIssues.filter(
+        (issue) =>
+          !this.hiddenRunIds.has(issue.resultInfo.runId) &&
+          (showSuppressed || !ResultInfoFactory.isSuppressed(issue.resultInfo))
+      );
       let diags: Diagnostic[];
       if (
+        issues.length === 0 ||
         !issues[0].resultInfo.assignedLocation ||
         !issues[0].resultInfo.assignedLocation.uri
       ) {
@@ -349,6 +534,20 @@ export class SVDiagnosticCollection implements Disposable {
     }
   }
 
+  /**
+   * Resyncs the problems panel when the setting for showing the suppressed results changed
+   * @param event configuration change event
+   */
+  private onSettingsChanged(event: ConfigurationChangeEvent): void {
+    if (
+      event.affectsConfiguration(
+        `${Utilities.configSection}.${this.configShowSuppressedInProblems}`
+      )
+    ) {
+      this.syncDiagnostics();
+    }
+  }
+
   /**
    * Removes the results associated with the runids to be removed from the collection
    * @param runsToRemove array of runids to be removed
@@ -0,0 +1,60 @@
+/**
+This file is part of Scan.
+
+Scan is free software: you can redistribute it and/or modify
+it under the terms of the GNU General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+Scan is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU General Public License for more details.
+
+You should have received a copy of the GNU General Public License
+along with Scan.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import * as fs from "fs";
+import { SarifParserRequest, SarifParserResponse } from "./common/Interfaces";
+import { JsonStreamParser } from "./JsonStreamParser";
+
+// Entry point of the process LogReader forks to parse large sarif files off the extension host's thread
+
+/**
+ * Streams the sarif file from disk through the parser
+ * @param request the file to parse
+ */
+function parse(request: SarifParserRequest): Promise<SarifParserResponse> {
+  return new Promise<SarifParserResponse>((resolve) => {
+    const parser: JsonStreamParser = new JsonStreamParser(
+      JsonStreamParser.SarifPointerDepth
+    );
+    const stream: fs.ReadStream = fs.createReadStream(request.filePath, {
+      encoding: "utf8",
+    });
+    stream.on("data", (chunk: string) => {
+      try {
+        parser.write(chunk);
+      } catch (error) {
+        stream.destroy();
+        resolve({ error: error.message });
+      }
+    });
+    stream.on("error", (error: Error) => resolve({ error: error.message }));
+    stream.on("end", () => {
+      try {
+        resolve({ mapping: parser.end() });
+      } catch (error) {
+        resolve({ error: error.message });
+      }
+    });
+  });
+}
+
+// The process isn't exited here because the response might not be sent yet, LogReader stops it once it's received
+process.on("message", async (request: SarifParserRequest) => {
+  const response: SarifParserResponse = await parse(request);
+  if (process.send) {
+    process.send(response);
+  }
+});
@@ -15,30 +15,212 @@ along with Scan.  If not, see <https://www.gnu.org/licenses/>.
 */
 
 import * as vscode from "vscode";
-import { platform } from "os";
-import {
-  ChildProcess,
-  spawn,
-  spawnSync,
-  SpawnSyncReturns,
-  ExecOptions,
-} from "child_process";
+import * as fs from "fs";
+import { platform, tmpdir } from "os";
+import * as path from "path";
+import { ChildProcess, spawnSync, SpawnSyncReturns } from "child_process";
 import {
+  CancellationToken,
   commands,
+  ConfigurationTarget,
+  Disposable,
+  Event,
+  EventEmitter,
   OutputChannel,
+  Progress,
+  ProgressLocation,
+  QuickPickItem,
+  RelativePattern,
   Uri,
   workspace,
   WorkspaceConfiguration,
+  WorkspaceFolder,
   window,
 } from "vscode";
+import { Credentials } from "./Credentials";
+import { AppDetector } from "./AppDetector";
+import { ImageLookup, ImageManager } from "./ImageManager";
+import { ScanConsole } from "./ScanConsole";
+import { ScanOutputParser } from "./ScanOutputParser";
 import { Utilities } from "./Utilities";
+import { ScanRunnerFactory } from "./factories/ScanRunnerFactory";
+import { ContainerScanRunner } from "./runners/ContainerScanRunner";
+import { ScanCommand, ScanLimits, ScanRunner } from "./runners/ScanRunner";
+import {
+  PathRewriteRule,
+  ScanProfile,
+  ScanProgress,
+  ScanRc,
+  ShiftLeftCredentials,
+} from "./common/Interfaces";
+
+export interface ScanCompletedEvent {
+  cancelled: boolean;
+  exitCode?: number;
+}
+
+/**
+ * Details of a completed scan of a workspace folder, ex. for archiving its reports
+ */
+export interface FolderScannedEvent {
+  appRoot: string;
+  duration?: string;
+  folder: WorkspaceFolder;
+  // Only some of the files were scanned, ex. the files changed against the base ref
+  incremental: boolean;
+  // Name of the scan profile from the settings, if any
+  profile?: string;
+  // Sarif reports the scan wrote
+  reports: Uri[];
+}
+
+/**
+ * Application of a workspace folder, ex. one of the apps of a monorepo detected from its build manifest
+ */
+export interface ScanApp {
+  appRoot: string;
+  folder: WorkspaceFolder;
+  name: string;
+}
+
+/**
+ * Options for scanning only some of the files of the app root
+ */
+export interface ScanOptions {
+  /**
+   * Apps to scan instead of the app roots of the workspace folders, the results are tagged with the app names
+   */
+  apps?: ScanApp[];
+
+  /**
+   * Files to scan relative to the app root, the scan runs in the background and its results get merged
+   */
+  files?: string[];
+
+  /**
+   * Only scan the files changed against the base ref from the settings
+   */
+  incremental?: boolean;
+
+  /**
+   * File or directory to scan instead of the app root, only the results located under it get replaced
+   */
+  path?: string;
+
+  /**
+   * Scan types passed to the scanner, ex. python. The scanner detects them if not set
+   */
+  types?: string[];
+}
+
+/**
+ * Outcome of a scan process, the error output is kept to explain why a scan failed
+ */
+interface ScanResult {
+  code: number;
+  // Elapsed time of the scan process
+  duration?: string;
+  errorOutput: string;
+  // The scan image isn't available locally, so the scan didn't run
+  imageUnavailable?: boolean;
+  scanCommand?: ScanCommand;
+  timedOut?: boolean;
+}
 
 export class Scan {
+  /**
+   * Channel the output of the background scans goes to, reused so saving doesn't create a channel each time
+   */
+  private static backgroundOutputChannel: OutputChannel | undefined;
+
+  /**
+   * Terminal the output of the other scans goes to, reused by the next scan unless the user closed it
+   */
+  private static scanConsole: ScanConsole | undefined;
+
   /**
    * Flag to indicate if a scan is in progress
    */
   private static scanInProgress: boolean = false;
 
+  /**
+   * Flag to indicate that the scan in progress is a background scan of the saved files
+   */
+  private static backgroundScanInProgress: boolean = false;
+
+  /**
+   * Number of manual scans waiting for the background scan to complete, the saved files wait for them in turn
+   */
+  private static queuedScans: number = 0;
+
+  /**
+   * The scan processes that are currently running with the commands they were started with, their runners stop the scans
+   * More than one process runs when the apps of a monorepo are scanned in parallel
+   */
+  private static readonly scanProcesses: Map<
+    ChildProcess,
+    ScanCommand
+  > = new Map<ChildProcess, ScanCommand>();
+
+  /**
+   * Flag to indicate that the user asked to cancel the running scan
+   */
+  private static scanCancelled: boolean = false;
+
+  private static readonly scanStartedEventEmitter: EventEmitter<
+    void
+  > = new EventEmitter<void>();
+
+  /**
+   * Fired when a scan starts, the scan is running until onScanCompleted fires
+   */
+  public static get onScanStarted(): Event<void> {
+    return Scan.scanStartedEventEmitter.event;
+  }
+
+  private static readonly scanCompletedEventEmitter: EventEmitter<
+    ScanCompletedEvent
+  > = new EventEmitter<ScanCompletedEvent>();
+
+  public static get onScanCompleted(): Event<ScanCompletedEvent> {
+    return Scan.scanCompletedEventEmitter.event;
+  }
+
+  private static readonly scanProgressEventEmitter: EventEmitter<
+    ScanProgress
+  > = new EventEmitter<ScanProgress>();
+
+  /**
+   * Fired with the progress the scanner reports, ex. when a tool starts
+   */
+  public static get onScanProgress(): Event<ScanProgress> {
+    return Scan.scanProgressEventEmitter.event;
+  }
+
+  private static readonly folderScannedEventEmitter: EventEmitter<
+    FolderScannedEvent
+  > = new EventEmitter<FolderScannedEvent>();
+
+  /**
+   * Fired when the scan of a workspace folder succeeds, the background scans of the saved files excluded
+   */
+  public static get onFolderScanned(): Event<FolderScannedEvent> {
+    return Scan.folderScannedEventEmitter.event;
+  }
+
+  /**
+   * Workspace state the mount mappings of the docker scans are kept in, so they survive a reload
+   */
+  private static workspaceState: vscode.Memento | undefined;
+
+  private static readonly mountMappingsChangedEventEmitter: EventEmitter<
+    void
+  > = new EventEmitter<void>();
+
+  public static get onMountMappingsChanged(): Event<void> {
+    return Scan.mountMappingsChangedEventEmitter.event;
+  }
+
   // Variable to track if scan cli is available locally
   private static scanCliAvailable: boolean = false;
 
@@ -47,13 +229,59 @@ export class Scan {
   private static readonly configScanMode = "scanMode";
   private static readonly configAppRoot = "appRoot";
   private static readonly configAppName = "appName";
-  private static readonly configOrgId = "orgId";
-  private static readonly configApiToken = "apiToken";
-  private static readonly configAccessToken = "accessToken";
+  private static readonly configIncrementalBaseRef = "incrementalBaseRef";
+  private static readonly configScanProfile = "scanProfile";
+  private static readonly configRunner = "runner";
+  private static readonly configCustomRunnerCommand = "customRunnerCommand";
+  private static readonly configContainerMemory = "containerMemory";
+  private static readonly configContainerCpus = "containerCpus";
+  private static readonly configScanTimeout = "scanTimeout";
+  private static readonly configAppScanParallelism = "appScanParallelism";
+  private static readonly scanRcFileName = ".sastscanrc";
+  private static readonly mountMappingsKey = "mountMappings";
+  // Each app root has a mount of its own, so there's a mapping per app of a monorepo
+  private static readonly maxMountMappings: number = 50;
   private static readonly isWin: boolean = platform().indexOf("win32") > -1;
-  private static readonly isMac: boolean = platform().indexOf("darwin") > -1;
+
+  public static readonly CancelScanCommand = "extension.shiftleft.CancelScan";
+  public static readonly SelectProfileCommand =
+    "extension.shiftleft.SelectProfile";
+  public static readonly ScanPathCommand = "extension.shiftleft.ScanPath";
+  public static readonly ScanAppsCommand = "extension.shiftleft.ScanApps";
+  public static readonly PerformIncrementalScanCommand =
+    "extension.shiftleft.PerformIncrementalScan";
+  public static readonly CheckEnvironmentCommand =
+    "extension.shiftleft.CheckEnvironment";
+  public static readonly PullImageCommand = "extension.shiftleft.PullImage";
+  public static readonly LoadImageCommand = "extension.shiftleft.LoadImage";
+
+  /**
+   * Images reported as unavailable, so the background scans of the saved files don't report them on every save
+   */
+  private static readonly reportedUnavailableImages: Set<string> = new Set<
+    string
+  >();
+
+  // Only the tail of the error output is kept to classify a failed scan
+  private static readonly maxErrorOutputLength: number = 4096;
+
+  /**
+   * Temp directories of the incremental and path scans, keyed by the app root
+   * Their results are replaced by the next full scan of the app root
+   */
+  private static readonly incrementalScanDirs: Map<string, string[]> = new Map<
+    string,
+    string[]
+  >();
 
   public static initialize(extensionContext: vscode.ExtensionContext): void {
+    Scan.workspaceState = extensionContext.workspaceState;
+    extensionContext.subscriptions.push(
+      Scan.scanCompletedEventEmitter,
+      Scan.folderScannedEventEmitter,
+      Scan.scanProgressEventEmitter,
+      Scan.mountMappingsChangedEventEmitter
+    );
     Scan.registerCommands(extensionContext);
   }
 
@@ -61,10 +289,28 @@ export class Scan {
     extensionContext: vscode.ExtensionContext
   ): void {
     extensionContext.subscriptions.push(
-      commands.registerCommand(
-        "extension.shiftleft.PerformScan",
-        Scan.performSastScan
-      )
+      commands.registerCommand("extension.shiftleft.PerformScan", () =>
+        Scan.performSastScan()
+      ),
+      commands.registerCommand(Scan.PerformIncrementalScanCommand, () =>
+        Scan.performSastScan(undefined, { incremental: true })
+      ),
+      commands.registerCommand(Scan.ScanPathCommand, Scan.scanPath),
+      commands.registerCommand(Scan.ScanAppsCommand, Scan.scanApps),
+      commands.registerCommand(Scan.SelectProfileCommand, Scan.selectProfile),
+      commands.registerCommand(Scan.PullImageCommand, () =>
+        ImageManager.pullImage(
+          Scan.getContainerRuntime(),
+          Scan.getContainerImage(undefined, Credentials.get())
+        )
+      ),
+      commands.registerCommand(Scan.LoadImageCommand, () =>
+        ImageManager.loadImage(
+          Scan.getContainerRuntime(),
+          Scan.getContainerImage(undefined, Credentials.get())
+        )
+      ),
+      commands.registerCommand(Scan.CancelScanCommand, Scan.cancelScan)
     );
   }
 
@@ -83,6 +329,37 @@ export class Scan {
     return Scan.scanCliAvailable;
   }
 
+  /**
+   * Returns the container paths the app roots of the previous docker scans were mounted at, most recent first
+   */
+  public static getMountMappings(): PathRewriteRule[] {
+    return Scan.workspaceState
+      ? Scan.workspaceState.get<PathRewriteRule[]>(Scan.mountMappingsKey, [])
+      : [];
+  }
+
+  /**
+   * Records the container path the app root of a docker scan is mounted at
+   *
+   * @param mapping Container path to host path mapping
+   */
+  public static async recordMountMapping(
+    mapping: PathRewriteRule
+  ): Promise<void> {
+    if (!Scan.workspaceState) {
+      return;
+    }
+    const mappings: PathRewriteRule[] = Scan.getMountMappings().filter(
+      (m) => m.from !== mapping.from
+    );
+    mappings.unshift(mapping);
+    await Scan.workspaceState.update(
+      Scan.mountMappingsKey,
+      mappings.slice(0, Scan.maxMountMappings)
+    );
+    Scan.mountMappingsChangedEventEmitter.fire();
+  }
+
   /**
    * Method to check if a scan is running
    */
@@ -90,29 +367,505 @@ export class Scan {
     return Scan.scanInProgress;
   }
 
+  /**
+   * Method to check if a manual scan is waiting for the background scan to complete
+   */
+  public static isScanQueued(): boolean {
+    return Scan.queuedScans > 0;
+  }
+
+  /**
+   * Method to cancel the running scans. Kills the scan process trees and stops the containers
+   */
+  public static cancelScan(): void {
+    if (!Scan.scanInProgress) {
+      return;
+    }
+    Scan.scanCancelled = true;
+    Scan.scanProcesses.forEach((scanCommand, proc) =>
+      scanCommand.runner.stop(proc, scanCommand)
+    );
+  }
+
+  /**
+   * Builds the command line of a scan from the settings of the workspace folder, with the runner from the settings
+   *
+   * @param folder Workspace folder to scan
+   * @param credentials ShiftLeft NextGen credentials, the scan is a cloud based scan if set
+   * @param options Overrides for the scan mode and application root settings, the scan types to pass to
+   * the scanner and workspace, the directory the results are reported under when a copy of the application root is scanned.
+   * A file of the application root to scan on its own and the directory to write the reports to can also be passed
+   */
+  public static getScanCommand(
+    folder: WorkspaceFolder,
+    credentials: ShiftLeftCredentials | undefined,
+    options: {
+      appName?: string;
+      file?: string;
+      mode?: string;
+      reportsDir?: string;
+      src?: string;
+      types?: string[];
+      workspace?: string;
+    } = {}
+  ): ScanCommand {
+    const sarifConfig: WorkspaceConfiguration = workspace.getConfiguration(
+      Utilities.configSection,
+      folder.uri
+    );
+    const containerImage: string = Scan.getContainerImage(folder, credentials);
+    const appRoot: string = Scan.getAppRoot(folder, options.src);
+    const reportedRoot: string = options.workspace || appRoot;
+    const profile: ScanProfile | undefined = Scan.getProfile(
+      reportedRoot,
+      sarifConfig.get(Scan.configScanProfile, "")
+    );
+    const scanMode: string =
+      options.mode ||
+      (profile && profile.mode) ||
+      sarifConfig.get(Scan.configScanMode, "ide");
+    const types: string[] | undefined =
+      options.types || Scan.getProfileTypes(profile);
+    const appName: string = options.appName || Scan.getAppName(folder);
+    // Process environment variables
+    const env: { [key: string]: string } = {
+      // The scanner keeps its colours when the output isn't a tty, they are shown by the scan console
+      FORCE_COLOR: "1",
+      WORKSPACE: reportedRoot,
+    };
+    // The excludes and build break rules of the profile override the ones the scanner reads from .sastscanrc
+    if (profile && profile.exclude && profile.exclude.length) {
+      env["IGNORE_DIRECTORIES"] = profile.exclude.join(",");
+    }
+    if (profile && profile.build_break_rules) {
+      env["BUILD_BREAK_RULES"] = JSON.stringify(profile.build_break_rules);
+    }
+    if (credentials) {
+      env["SHIFTLEFT_APP"] = appName;
+      env["SHIFTLEFT_ORG_ID"] = credentials.orgId;
+      env["SHIFTLEFT_API_TOKEN"] = credentials.apiToken;
+      env["SHIFTLEFT_ACCESS_TOKEN"] = credentials.accessToken;
+    }
+    return Scan.getRunner(folder).getCommand({
+      appRoot,
+      env,
+      file: options.file,
+      image: containerImage,
+      limits: Scan.getLimits(folder),
+      mode: scanMode,
+      reportsDir: options.reportsDir,
+      types,
+      workspace: reportedRoot,
+    });
+  }
+
+  /**
+   * Returns the resource limits of the scan containers of the workspace folder
+   *
+   * @param folder Workspace folder
+   */
+  private static getLimits(folder: WorkspaceFolder): ScanLimits {
+    const sarifConfig: WorkspaceConfiguration = workspace.getConfiguration(
+      Utilities.configSection,
+      folder.uri
+    );
+    const memory: string = sarifConfig.get(Scan.configContainerMemory, "");
+    const cpus: number = Number(sarifConfig.get(Scan.configContainerCpus, 0));
+    // The limits end up in a shell command line, so anything but a plain amount is ignored
+    return {
+      cpus: cpus > 0 ? cpus : undefined,
+      memory: /^\d+[bkmg]?$/i.test(memory) ? memory : undefined,
+    };
+  }
+
+  /**
+   * Describes the resource limits and the timeout of the scans of the workspace folder, ex. for the run info
+   *
+   * @param folder Workspace folder
+   * @param scanCommand Command of the scan, the container limits don't apply to the other runners
+   */
+  private static describeLimits(
+    folder: WorkspaceFolder,
+    scanCommand: ScanCommand
+  ): string {
+    const limits: ScanLimits = Scan.getLimits(folder);
+    const timeout: number = Scan.getTimeout(folder);
+    const descriptions: string[] = [];
+    if (scanCommand.containerName) {
+      descriptions.push(
+        `memory ${limits.memory || "unlimited"}`,
+        `${limits.cpus || "unlimited"} CPUs`
+      );
+    }
+    descriptions.push(
+      timeout ? `timeout ${timeout / 60000} min` : "no timeout"
+    );
+    return descriptions.join(", ");
+  }
+
+  /**
+   * Returns the time a scan of the workspace folder may take in milliseconds, 0 if it may take any time
+   *
+   * @param folder Workspace folder
+   */
+  private static getTimeout(folder: WorkspaceFolder): number {
+    const minutes: number = workspace
+      .getConfiguration(Utilities.configSection, folder.uri)
+      .get(Scan.configScanTimeout, 0);
+    return minutes > 0 ? minutes * 60000 : 0;
+  }
+
+  /**
+   * Returns the cli of the container runtime the workspace folder is scanned with, docker when it isn't scanned in a container
+   *
+   * @param folder Workspace folder, the runner from the user or workspace settings if not set
+   */
+  public static getContainerRuntime(folder?: WorkspaceFolder): string {
+    const runner: ScanRunner = Scan.getRunner(folder);
+    return runner instanceof ContainerScanRunner
+      ? runner.runtimeCmd
+      : ContainerScanRunner.dockerCmd;
+  }
+
+  /**
+   * Returns the runner the workspace folder is scanned with
+   * The auto runner uses the local scan cli when it's available, docker otherwise
+   *
+   * @param folder Workspace folder, the runner from the user or workspace settings if not set
+   */
+  public static getRunner(folder?: WorkspaceFolder): ScanRunner {
+    const sarifConfig: WorkspaceConfiguration = workspace.getConfiguration(
+      Utilities.configSection,
+      folder && folder.uri
+    );
+    let name: string = sarifConfig.get(
+      Scan.configRunner,
+      ScanRunnerFactory.Auto
+    );
+    if (name === ScanRunnerFactory.Auto) {
+      name = Scan.checkLocalCommand()
+        ? ScanRunnerFactory.Local
+        : ScanRunnerFactory.Docker;
+    }
+    return ScanRunnerFactory.create(
+      name,
+      sarifConfig.get(Scan.configCustomRunnerCommand, "")
+    );
+  }
+
+  /**
+   * Returns the container image the workspace folder is scanned with
+   *
+   * @param folder Workspace folder, the image from the user or workspace settings if not set
+   * @param credentials ShiftLeft NextGen credentials, the NextGen scans need the java image
+   */
+  public static getContainerImage(
+    folder: WorkspaceFolder | undefined,
+    credentials: ShiftLeftCredentials | undefined
+  ): string {
+    const containerImage: string = workspace
+      .getConfiguration(Utilities.configSection, folder && folder.uri)
+      .get(Scan.configContainerImage, "docker.io/shiftleft/sast-scan:latest");
+    return credentials && containerImage === "shiftleft/sast-scan"
+      ? "shiftleft/scan-java"
+      : containerImage;
+  }
+
+  /**
+   * Returns the application root of the workspace folder, a relative app root is relative to the workspace folder
+   *
+   * @param folder Workspace folder
+   * @param src Overrides the app root setting
+   */
+  public static getAppRoot(folder: WorkspaceFolder, src?: string): string {
+    const appRootFromConfig: string | undefined =
+      src ||
+      workspace
+        .getConfiguration(Utilities.configSection, folder.uri)
+        .get(Scan.configAppRoot, undefined);
+    return appRootFromConfig && appRootFromConfig !== ""
+      ? path.resolve(folder.uri.fsPath, appRootFromConfig)
+      : folder.uri.fsPath;
+  }
+
+  /**
+   * Returns the scan mode of the workspace folder, the mode of the selected profile takes precedence over the setting
+   *
+   * @param folder Workspace folder
+   */
+  public static getScanMode(folder: WorkspaceFolder): string {
+    const sarifConfig: WorkspaceConfiguration = workspace.getConfiguration(
+      Utilities.configSection,
+      folder.uri
+    );
+    const profile: ScanProfile | undefined = Scan.getProfile(
+      Scan.getAppRoot(folder),
+      sarifConfig.get(Scan.configScanProfile, "")
+    );
+    return (
+      (profile && profile.mode) || sarifConfig.get(Scan.configScanMode, "ide")
+    );
+  }
+
+  /**
+   * Returns the application name of the workspace folder, the folder name if the app name setting isn't set
+   *
+   * @param folder Workspace folder
+   */
+  public static getAppName(folder: WorkspaceFolder): string {
+    const appNameFromConfig: string | undefined = workspace
+      .getConfiguration(Utilities.configSection, folder.uri)
+      .get(Scan.configAppName, undefined);
+    return appNameFromConfig && appNameFromConfig !== ""
+      ? appNameFromConfig
+      : folder.name;
+  }
+
+  /**
+   * Reads the .sastscanrc file of the application root, undefined if there is none
+   * Throws if the file is not valid JSON
+   *
+   * @param appRoot Application root directory
+   */
+  public static readScanRc(appRoot: string): ScanRc | undefined {
+    const scanRcPath: string = path.join(appRoot, Scan.scanRcFileName);
+    if (!fs.existsSync(scanRcPath)) {
+      return undefined;
+    }
+    return JSON.parse(fs.readFileSync(scanRcPath, "utf8"));
+  }
+
+  /**
+   * Returns the profile from the .sastscanrc file of the application root, undefined if it can't be found
+   *
+   * @param appRoot Application root directory
+   * @param name Name of the profile
+   */
+  private static getProfile(
+    appRoot: string,
+    name: string
+  ): ScanProfile | undefined {
+    if (!name) {
+      return undefined;
+    }
+    try {
+      const scanRc: ScanRc | undefined = Scan.readScanRc(appRoot);
+      return scanRc && scanRc.profiles && scanRc.profiles[name];
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  /**
+   * Returns the scan types of the profile, which can be a comma separated list or an array
+   *
+   * @param profile Scan profile
+   */
+  private static getProfileTypes(
+    profile: ScanProfile | undefined
+  ): string[] | undefined {
+    if (!profile || !profile.type) {
+      return undefined;
+    }
+    return (Array.isArray(profile.type)
+      ? profile.type
+      : profile.type.split(",")
+    )
+      .map((type) => type.trim())
+      .filter((type) => type !== "");
+  }
+
+  /**
+   * Scans the file or folder picked in the explorer, or the file of the editor
+   *
+   * @param uri File or folder to scan, the file of the active editor if not passed, ex. from the command palette
+   */
+  private static async scanPath(uri?: Uri): Promise<void> {
+    const target: Uri | undefined =
+      uri || (window.activeTextEditor && window.activeTextEditor.document.uri);
+    const folder: WorkspaceFolder | undefined =
+      target && workspace.getWorkspaceFolder(target);
+    if (!target || !folder || target.scheme !== "file") {
+      await window.showErrorMessage(
+        "Scan: Pick a file or folder of the workspace to scan."
+      );
+      return;
+    }
+    if (!fs.existsSync(target.fsPath)) {
+      await window.showErrorMessage(
+        `Scan: '${target.fsPath}' doesn't exist anymore.`
+      );
+      return;
+    }
+    await Scan.performSastScan([folder], { path: target.fsPath });
+  }
+
+  /**
+   * Detects the apps of the workspace folders from their build manifests and scans the ones the user picks
+   */
+  private static async scanApps(): Promise<void> {
+    const folders: readonly WorkspaceFolder[] =
+      workspace.workspaceFolders || [];
+    if (!folders.length) {
+      await window.showErrorMessage(
+        "Scan: Open a folder or workspace to perform a security scan."
+      );
+      return;
+    }
+
+    interface AppQuickPickItem extends QuickPickItem {
+      app: ScanApp;
+    }
+
+    const items: AppQuickPickItem[] = [];
+    for (const folder of folders) {
+      for (const app of AppDetector.detect(folder.uri.fsPath)) {
+        const relativePath: string = path.relative(
+          folder.uri.fsPath,
+          app.appRoot
+        );
+        items.push({
+          app: { appRoot: app.appRoot, folder, name: app.name },
+          description:
+            folders.length > 1
+              ? path.join(folder.name, relativePath)
+              : relativePath || ".",
+          detail: app.manifests.join(", "),
+          label: app.name,
+        });
+      }
+    }
+    if (!items.length) {
+      await window.showInformationMessage(
+        "Scan: No build manifests, ex. package.json or pom.xml, were found in the workspace. Use the App Root setting to pick the directory to scan."
+      );
+      return;
+    }
+
+    const picked: AppQuickPickItem[] | undefined = await window.showQuickPick(
+      items,
+      {
+        canPickMany: true,
+        matchOnDescription: true,
+        placeHolder: "Select the applications to scan",
+      }
+    );
+    if (!picked || !picked.length) {
+      return;
+    }
+    const apps: ScanApp[] = picked.map((item) => item.app);
+    await Scan.performSastScan(
+      folders.filter((folder) => apps.some((app) => app.folder === folder)),
+      { apps }
+    );
+  }
+
+  /**
+   * Lets the user pick the scan profile of a workspace folder from the profiles of its .sastscanrc file
+   */
+  private static async selectProfile(): Promise<void> {
+    const folders: readonly WorkspaceFolder[] =
+      workspace.workspaceFolders || [];
+    if (!folders.length) {
+      await window.showErrorMessage(
+        "Scan: Open a folder or workspace to select a scan profile."
+      );
+      return;
+    }
+    const folder: WorkspaceFolder | undefined =
+      folders.length === 1
+        ? folders[0]
+        : await window.showWorkspaceFolderPick({
+            placeHolder: "Select the workspace folder to pick the profile for",
+          });
+    if (!folder) {
+      return;
+    }
+
+    const appRoot: string = Scan.getAppRoot(folder);
+    const scanRcPath: string = path.join(appRoot, Scan.scanRcFileName);
+    let scanRc: ScanRc | undefined;
+    try {
+      scanRc = Scan.readScanRc(appRoot);
+    } catch (error) {
+      await window.showErrorMessage(
+        `Scan: Cannot read the profiles from '${scanRcPath}' because: ${error.message}`
+      );
+      return;
+    }
+    const profiles: { [name: string]: ScanProfile } =
+      (scanRc && scanRc.profiles) || {};
+    if (!Object.keys(profiles).length) {
+      await window.showInformationMessage(
+        `Scan: There are no profiles in '${scanRcPath}'.`
+      );
+      return;
+    }
+
+    interface ProfileQuickPickItem extends QuickPickItem {
+      profile: string;
+    }
+
+    const sarifConfig: WorkspaceConfiguration = workspace.getConfiguration(
+      Utilities.configSection,
+      folder.uri
+    );
+    const current: string = sarifConfig.get(Scan.configScanProfile, "");
+    const items: ProfileQuickPickItem[] = [
+      {
+        description: current ? undefined : "(current)",
+        detail:
+          "Use the scan mode setting and let the scanner detect the types",
+        label: "Default",
+        profile: "",
+      },
+    ];
+    for (const name of Object.keys(profiles)) {
+      const profile: ScanProfile = profiles[name];
+      const types: string[] | undefined = Scan.getProfileTypes(profile);
+      items.push({
+        description: name === current ? "(current)" : profile.description,
+        detail: [
+          types ? `types: ${types.join(", ")}` : "",
+          profile.mode ? `mode: ${profile.mode}` : "",
+          profile.exclude ? `excludes: ${profile.exclude.join(", ")}` : "",
+          profile.build_break_rules ? "build break rules" : "",
+        ]
+          .filter((d) => d !== "")
+          .join(" | "),
+        label: name,
+        profile: name,
+      });
+    }
+
+    const selected:
+      | ProfileQuickPickItem
+      | undefined = await window.showQuickPick(items, {
+      placeHolder: `Select the scan profile of ${folder.name}`,
+    });
+    if (!selected) {
+      return;
+    }
+    await sarifConfig.update(
+      Scan.configScanProfile,
+      selected.profile || undefined,
+      ConfigurationTarget.WorkspaceFolder
+    );
+  }
+
   /**
    * Method to show results based on existing sarif files
    *
-   * @string workspaceRoot Workspace root directory
    * @string appRoot Application root directory
    */
-  public static async showResults(
-    workspaceRoot: string,
-    appRoot: string
-  ): Promise<void> {
-    let relativeRoot: string = "";
-    if (workspaceRoot !== appRoot) {
-      relativeRoot = appRoot.replace(workspaceRoot + "/", "");
-    }
+  public static async showResults(appRoot: string): Promise<void> {
     const sarifFiles: Uri[] = await workspace.findFiles(
-      relativeRoot + "reports/*.sarif",
+      new RelativePattern(appRoot, "reports/*.sarif"),
       "**/node_modules/**",
       5
     );
     if (sarifFiles && sarifFiles.length) {
-      for (const f in sarifFiles) {
-        await workspace.openTextDocument(sarifFiles[f]);
-      }
+      await commands.executeCommand("extension.shiftleft.LoadLogs", sarifFiles);
       await commands.executeCommand("extension.shiftleft.LaunchExplorer");
     }
   }
@@ -120,19 +873,11 @@ export class Scan {
   /**
    * Method to delete existing sarif files
    *
-   * @string workspaceRoot Workspace root directory
    * @string appRoot Application root directory
    */
-  public static async deleteResults(
-    workspaceRoot: string,
-    appRoot: string
-  ): Promise<void> {
-    let relativeRoot: string = "";
-    if (workspaceRoot !== appRoot) {
-      relativeRoot = appRoot.replace(workspaceRoot + "/", "");
-    }
+  public static async deleteResults(appRoot: string): Promise<void> {
     const sarifFiles: Uri[] = await workspace.findFiles(
-      relativeRoot + "reports/*.sarif",
+      new RelativePattern(appRoot, "reports/*.sarif"),
       "**/node_modules/**",
       5
     );
@@ -145,138 +890,755 @@ export class Scan {
 
   /**
    * Perform Scan
+   *
+   * @param folders Workspace folders to scan, the user picks them if there is more than one folder open
+   * @param options Options for scanning only some of the files
    */
-  public static async performSastScan(): Promise<void> {
+  public static async performSastScan(
+    folders?: WorkspaceFolder[],
+    options: ScanOptions = {}
+  ): Promise<void> {
+    // The explorer shows the scan as started once its button is pressed, so every scan that doesn't start
+    // completes as cancelled
     if (Scan.scanInProgress) {
+      // The saved files are queued by scan on save until the running scan completes
+      if (options.files) {
+        Scan.scanCompletedEventEmitter.fire({ cancelled: true });
+        return;
+      }
+      if (!Scan.backgroundScanInProgress) {
+        Scan.scanCompletedEventEmitter.fire({ cancelled: true });
+        await window.showInformationMessage(
+          "Scan: A security scan is already running."
+        );
+        return;
+      }
+      await Scan.waitForBackgroundScan();
+    }
+    if (!workspace.workspaceFolders || !workspace.workspaceFolders.length) {
+      Scan.scanCompletedEventEmitter.fire({ cancelled: true });
+      await window.showErrorMessage(
+        "Scan: Open a folder or workspace to perform a security scan."
+      );
+      return;
+    }
+    const foldersToScan: WorkspaceFolder[] | undefined =
+      folders && folders.length ? folders : await Scan.pickWorkspaceFolders();
+    if (!foldersToScan || !foldersToScan.length || Scan.scanInProgress) {
+      Scan.scanCompletedEventEmitter.fire({ cancelled: true });
       return;
     }
     // Mark the scan as in progress asap
     Scan.scanInProgress = true;
-    const sarifConfig: WorkspaceConfiguration = workspace.getConfiguration(
-      Utilities.configSection
+    Scan.backgroundScanInProgress = !!options.files;
+    Scan.scanStartedEventEmitter.fire();
+    const credentials: ShiftLeftCredentials | undefined = Credentials.get();
+    let outputChannel: OutputChannel;
+    if (options.files) {
+      Scan.backgroundOutputChannel =
+        Scan.backgroundOutputChannel ||
+        window.createOutputChannel("Scan (background)");
+      outputChannel = Scan.backgroundOutputChannel;
+    } else {
+      const consoleName: string = credentials ? "ShiftLeft NextGen" : "Scan";
+      if (
+        !Scan.scanConsole ||
+        Scan.scanConsole.isClosed ||
+        Scan.scanConsole.name !== consoleName
+      ) {
+        if (Scan.scanConsole) {
+          Scan.scanConsole.dispose();
+        }
+        Scan.scanConsole = new ScanConsole(consoleName, Scan.cancelScan);
+      }
+      Scan.scanConsole.clear();
+      outputChannel = Scan.scanConsole;
+    }
+    Scan.scanCancelled = false;
+    let result: ScanResult = { code: 0, errorOutput: "" };
+    try {
+      if (options.apps) {
+        result = await Scan.scanAppQueue(
+          options.apps,
+          outputChannel,
+          credentials,
+          options
+        );
+      } else {
+        for (const folder of foldersToScan) {
+          result = await Scan.scanFolder(
+            folder,
+            outputChannel,
+            credentials,
+            options
+          );
+          if (Scan.scanCancelled || result.code !== 0) {
+            break;
+          }
+        }
+      }
+    } catch (error) {
+      // Ex. the runner failed to start the process or the reports couldn't be loaded, reported as a failed scan
+      const message: string =
+        error instanceof Error ? error.message : `${error}`;
+      outputChannel.appendLine(Credentials.redact(message));
+      result = { code: -1, errorOutput: message };
+    } finally {
+      Scan.scanInProgress = false;
+    }
+    if (Scan.scanCancelled) {
+      outputChannel.appendLine(`Security scan was cancelled`);
+      Scan.scanCompletedEventEmitter.fire({ cancelled: true });
+      return;
+    }
+    Scan.scanCompletedEventEmitter.fire({
+      cancelled: false,
+      exitCode: result.code,
+    });
+    if (result.imageUnavailable) {
+      await Scan.reportUnavailableImage(result);
+    } else if (result.code !== 0) {
+      outputChannel.show(true);
+      const action: string | undefined = await window.showErrorMessage(
+        Scan.getFailureMessage(result),
+        "Check Environment"
+      );
+      if (action) {
+        await commands.executeCommand(Scan.CheckEnvironmentCommand);
+      }
+    } else if (!options.files) {
+      outputChannel.hide();
+    }
+  }
+
+  /**
+   * Waits for the background scan of the saved files to complete, so a manual scan can run after it
+   */
+  private static async waitForBackgroundScan(): Promise<void> {
+    Scan.queuedScans++;
+    const waiting: Disposable = window.setStatusBarMessage(
+      "$(watch) Scan: Waiting for the scan of the saved files to complete"
     );
-    let containerImage: string = sarifConfig.get(
-      Scan.configContainerImage,
-      "docker.io/shiftleft/sast-scan:latest"
+    try {
+      while (Scan.scanInProgress) {
+        await new Promise<void>((resolve) => {
+          const listener: Disposable = Scan.onScanCompleted(() => {
+            listener.dispose();
+            resolve();
+          });
+        });
+      }
+    } finally {
+      waiting.dispose();
+      Scan.queuedScans--;
+    }
+  }
+
+  /**
+   * Reports that the scan image isn't available locally, once until it becomes available
+   *
+   * @param result Outcome of the scan that didn't run
+   */
+  private static async reportUnavailableImage(
+    result: ScanResult
+  ): Promise<void> {
+    const image: string | undefined =
+      result.scanCommand && result.scanCommand.image;
+    if (!image || Scan.reportedUnavailableImages.has(image)) {
+      return;
+    }
+    Scan.reportedUnavailableImages.add(image);
+    const pull: string = "Pull Image";
+    const action: string | undefined = await window.showErrorMessage(
+      `Scan: The scan image '${image}' isn't available locally, so the security scan didn't run.`,
+      pull
+    );
+    if (action === pull) {
+      await commands.executeCommand(Scan.PullImageCommand);
+    }
+  }
+
+  /**
+   * Explains why the scan failed from its exit code and error output
+   *
+   * @param result Outcome of the failed scan
+   */
+  private static getFailureMessage(result: ScanResult): string {
+    const { code, duration, errorOutput, scanCommand, timedOut } = result;
+    if (timedOut) {
+      return `Scan: The security scan timed out after ${duration}. Raise the Scan Timeout setting or scan less with a profile.`;
+    }
+    const isContainer: boolean = !!(scanCommand && scanCommand.containerName);
+    if (scanCommand && !fs.existsSync(scanCommand.appRoot)) {
+      return `Scan: The app root '${scanCommand.appRoot}' doesn't exist. Check the App Root setting.`;
+    }
+    if (
+      /permission denied.*docker\.sock|docker\.sock.*permission denied/i.test(
+        errorOutput
+      )
+    ) {
+      return "Scan: Docker refused the connection. Add your user to the docker group and sign in again.";
+    }
+    if (
+      /Cannot connect to the Docker daemon|Is the docker daemon running|error during connect/i.test(
+        errorOutput
+      )
+    ) {
+      return "Scan: The docker daemon isn't running. Start Docker Desktop and scan again.";
+    }
+    if (
+      code === 127 ||
+      /command not found|is not recognized as an internal or external command|ENOENT/i.test(
+        errorOutput
+      )
+    ) {
+      return isContainer
+        ? `Scan: '${
+            scanCommand ? scanCommand.baseCmd : "docker"
+          }' can't be found. Install the container runtime or put slscan on the PATH.`
+        : "Scan: The scan command can't be found. Check that slscan is installed and on the PATH.";
+    }
+    if (
+      isContainer &&
+      /Unable to find image|pull access denied|manifest unknown|repository does not exist/i.test(
+        errorOutput
+      )
+    ) {
+      return "Scan: The scan image can't be pulled. Check the Container Image setting and the network connection.";
+    }
+    if (
+      isContainer &&
+      /invalid mount config|error while creating mount|invalid volume specification|Mounts denied/i.test(
+        errorOutput
+      )
+    ) {
+      return `Scan: The container runtime can't mount '${
+        scanCommand ? scanCommand.appRoot : ""
+      }'. Share the directory with Docker Desktop or the podman machine.`;
+    }
+    if (
+      /unrecognized arguments|invalid choice|usage: scan/i.test(errorOutput)
+    ) {
+      return "Scan: The scanner didn't accept the arguments, it might be outdated. Update slscan or pull the latest image.";
+    }
+    return `Scan: Security scan has failed with exit code ${code}. Check the scan output for details.`;
+  }
+
+  /**
+   * Lets the user pick the workspace folders to scan, all of them are selected by default
+   */
+  private static async pickWorkspaceFolders(): Promise<
+    WorkspaceFolder[] | undefined
+  > {
+    const folders: readonly WorkspaceFolder[] =
+      workspace.workspaceFolders || [];
+    if (folders.length <= 1) {
+      return folders.slice();
+    }
+
+    interface FolderQuickPickItem extends QuickPickItem {
+      folder: WorkspaceFolder;
+    }
+
+    const picked:
+      | FolderQuickPickItem[]
+      | undefined = await window.showQuickPick(
+      folders.map((folder) => ({
+        description: folder.uri.fsPath,
+        folder,
+        label: folder.name,
+        picked: true,
+      })),
+      {
+        canPickMany: true,
+        placeHolder: "Select the workspace folders to scan",
+      }
     );
-    const scanMode: string = sarifConfig.get(Scan.configScanMode, "ide");
-    const appRootFromConfig: string | undefined = sarifConfig.get(
-      Scan.configAppRoot,
-      undefined
+    return picked && picked.map((item) => item.folder);
+  }
+
+  /**
+   * Scans the apps one after another, or a few at a time with the parallelism from the settings
+   * Unlike the scans of the workspace folders, a failed scan doesn't stop the scans of the other apps
+   *
+   * @param apps Apps to scan
+   * @param outputChannel Channel to write the scan output to, shared by the scans
+   * @param credentials ShiftLeft NextGen credentials, the scans are cloud based scans if set
+   * @param options Options of the scans
+   * @returns outcome of the first scan that failed, or success
+   */
+  private static async scanAppQueue(
+    apps: ScanApp[],
+    outputChannel: OutputChannel,
+    credentials: ShiftLeftCredentials | undefined,
+    options: ScanOptions
+  ): Promise<ScanResult> {
+    const parallelism: number = Math.max(
+      1,
+      workspace
+        .getConfiguration(Utilities.configSection)
+        .get(Scan.configAppScanParallelism, 1)
     );
-    const appNameFromConfig: string | undefined = sarifConfig.get(
-      Scan.configAppName,
-      undefined
+    const queue: ScanApp[] = apps.slice();
+    let failed: ScanResult | undefined;
+    const scanNext: () => Promise<void> = async () => {
+      // The other apps need the same image, so the queue stops when it isn't available
+      while (
+        queue.length &&
+        !Scan.scanCancelled &&
+        !(failed && failed.imageUnavailable)
+      ) {
+        const app: ScanApp = <ScanApp>queue.shift();
+        const result: ScanResult = await Scan.scanFolder(
+          app.folder,
+          outputChannel,
+          credentials,
+          options,
+          app
+        );
+        failed = failed || (result.code !== 0 ? result : undefined);
+      }
+    };
+
+    const workers: Promise<void>[] = [];
+    for (
+      let index: number = 0;
+      index < Math.min(parallelism, apps.length);
+      index++
+    ) {
+      workers.push(scanNext());
+    }
+    await Promise.all(workers);
+    return failed || { code: 0, errorOutput: "" };
+  }
+
+  /**
+   * Scans a workspace folder, the app root and name are resolved from the settings of that folder
+   *
+   * @param folder Workspace folder to scan
+   * @param outputChannel Channel to write the scan output to
+   * @param credentials ShiftLeft NextGen credentials, the scan is a cloud based scan if set
+   * @param options Options for scanning only some of the files
+   * @param app App of the workspace folder to scan instead of the app root from the settings
+   * @returns outcome of the scan process
+   */
+  private static async scanFolder(
+    folder: WorkspaceFolder,
+    outputChannel: OutputChannel,
+    credentials: ShiftLeftCredentials | undefined,
+    options: ScanOptions,
+    app?: ScanApp
+  ): Promise<ScanResult> {
+    const appName: string = app ? app.name : Scan.getAppName(folder);
+    let scanCommand: ScanCommand = Scan.getScanCommand(folder, credentials, {
+      appName,
+      src: app && app.appRoot,
+      types: options.types,
+    });
+    const appRoot: string = scanCommand.appRoot;
+    if (!fs.existsSync(appRoot)) {
+      return { code: -1, errorOutput: "", scanCommand };
+    }
+    const background: boolean = !!options.files;
+    let changedFiles: string[] = options.files || [];
+    let incrementalScanDir: string | undefined;
+    if (options.incremental) {
+      const baseRef: string = workspace
+        .getConfiguration(Utilities.configSection, folder.uri)
+        .get(Scan.configIncrementalBaseRef, "HEAD");
+      try {
+        changedFiles = Scan.getChangedFiles(appRoot, baseRef);
+      } catch (error) {
+        outputChannel.appendLine(error.message);
+        await window.showErrorMessage(
+          `Scan: Cannot find the files of ${folder.name} changed against '${baseRef}' because: ${error.message}`
+        );
+        return { code: 0, errorOutput: "" };
+      }
+      if (!changedFiles.length) {
+        outputChannel.appendLine(
+          `No files of ${folder.name} have changed against '${baseRef}'`
+        );
+        return { code: 0, errorOutput: "" };
+      }
+    }
+    if (changedFiles.length) {
+      incrementalScanDir = await Scan.copyChangedFiles(appRoot, changedFiles);
+      scanCommand = Scan.getScanCommand(folder, credentials, {
+        appName,
+        src: incrementalScanDir,
+        types: options.types,
+        workspace: appRoot,
+      });
+    } else if (options.path) {
+      // The path is scanned in place, the reports go to a temp directory so the reports of the app root are kept
+      const isDir: boolean = fs.statSync(options.path).isDirectory();
+      incrementalScanDir = await Scan.createScanDir(appRoot, "path");
+      const reportsDir: string = path.join(incrementalScanDir, "reports");
+      await workspace.fs.createDirectory(Uri.file(reportsDir));
+      scanCommand = Scan.getScanCommand(folder, credentials, {
+        appName,
+        file: isDir ? undefined : options.path,
+        reportsDir,
+        src: isDir ? options.path : path.dirname(options.path),
+        types: options.types,
+      });
+    }
+    const scannedFiles: Uri[] = options.path
+      ? [Uri.file(options.path)]
+      : changedFiles.map((file) => Uri.file(path.join(appRoot, file)));
+    const scanName: string = options.path
+      ? path.relative(folder.uri.fsPath, options.path) || folder.name
+      : app
+      ? app.name
+      : folder.name;
+    // A missing image is pulled up front, with progress, instead of silently by the run command
+    if (scanCommand.image) {
+      const lookup: ImageLookup = background
+        ? await ImageManager.lookUpImage(scanCommand.baseCmd, scanCommand.image)
+        : await ImageManager.ensureImage(
+            scanCommand.baseCmd,
+            scanCommand.image
+          );
+      // A runtime that failed, ex. an engine that isn't running, is reported like a failed scan
+      if (lookup.errorOutput !== undefined) {
+        outputChannel.appendLine(Credentials.redact(lookup.errorOutput));
+        return { code: -1, errorOutput: lookup.errorOutput, scanCommand };
+      }
+      if (!lookup.available) {
+        outputChannel.appendLine(
+          `The scan image '${scanCommand.image}' isn't available locally`
+        );
+        return {
+          code: -1,
+          errorOutput: "",
+          imageUnavailable: true,
+          scanCommand,
+        };
+      }
+      Scan.reportedUnavailableImages.delete(scanCommand.image);
+    }
+    const isInspectEnabled: boolean = !!credentials;
+    if (scanCommand.mountMapping) {
+      await Scan.recordMountMapping(scanCommand.mountMapping);
+    }
+    if (isInspectEnabled) {
+      outputChannel.appendLine(
+        `⚡︎ ShiftLeft NextGen scan of ${scanName} has started ...`
+      );
+    } else {
+      outputChannel.appendLine(
+        `⚡︎ Security scan of ${scanName} has started ...`
+      );
+    }
+    outputChannel.appendLine(
+      Credentials.redact(
+        `${scanCommand.baseCmd} ${scanCommand.cmdArgs.join(" ")}`
+      )
     );
-    const orgId: string | undefined = sarifConfig.get(
-      Scan.configOrgId,
-      undefined
+    if (!background) {
+      outputChannel.show(true);
+    }
+    const scanLimits: string = Scan.describeLimits(folder, scanCommand);
+    outputChannel.appendLine(`Limits: ${scanLimits}`);
+    const result: ScanResult = await window.withProgress(
+      {
+        cancellable: true,
+        location: background
+          ? ProgressLocation.Window
+          : ProgressLocation.Notification,
+        title: `${
+          isInspectEnabled ? "ShiftLeft NextGen scan" : "Security scan"
+        } (${scanName})`,
+      },
+      (progress, token) =>
+        Scan.runScanProcess(
+          scanCommand,
+          outputChannel,
+          progress,
+          token,
+          Scan.getTimeout(folder),
+          // The results of an incremental or path scan are merged once, after the scan completes
+          async () =>
+            incrementalScanDir ? undefined : Scan.showResults(appRoot)
+        )
     );
-    const apiToken: string | undefined = sarifConfig.get(
-      Scan.configApiToken,
-      undefined
+    outputChannel.appendLine(
+      result.timedOut
+        ? `Security scan of ${scanName} timed out after ${result.duration}`
+        : `Security scan of ${scanName} finished in ${result.duration}`
     );
-    const accessToken: string | undefined = sarifConfig.get(
-      Scan.configAccessToken,
-      undefined
+    if (!Scan.scanCancelled && result.code === 0) {
+      if (incrementalScanDir) {
+        await Scan.mergeIncrementalResults(
+          incrementalScanDir,
+          scannedFiles,
+          !background
+        );
+      } else {
+        await Scan.showResults(appRoot);
+        await Scan.unloadIncrementalResults(appRoot);
+      }
+      const reports: Uri[] = Scan.getReports(incrementalScanDir || appRoot);
+      await commands.executeCommand(
+        "extension.shiftleft.SetScanInfo",
+        reports,
+        result.duration,
+        scanLimits,
+        appName
+      );
+      if (!background) {
+        Scan.folderScannedEventEmitter.fire({
+          appRoot,
+          duration: result.duration,
+          folder,
+          incremental: !!incrementalScanDir,
+          profile:
+            workspace
+              .getConfiguration(Utilities.configSection, folder.uri)
+              .get(Scan.configScanProfile, "") || undefined,
+          reports,
+        });
+      }
+    }
+    return { ...result, scanCommand };
+  }
+
+  /**
+   * Returns the files changed against the base ref, including the untracked ones, relative to the app root
+   *
+   * @param appRoot Application root directory, has to be in a git repository
+   * @param baseRef Git ref to compare the files against
+   */
+  private static getChangedFiles(appRoot: string, baseRef: string): string[] {
+    const files: Set<string> = new Set<string>();
+    for (const gitArgs of [
+      ["diff", "--name-only", "--relative", baseRef, "--"],
+      ["ls-files", "--others", "--exclude-standard"],
+    ]) {
+      const ret: SpawnSyncReturns<string> = spawnSync("git", gitArgs, {
+        cwd: appRoot,
+        encoding: "utf8",
+      });
+      if (ret.error) {
+        throw ret.error;
+      }
+      if (ret.status !== 0) {
+        throw new Error(ret.stderr.trim());
+      }
+      ret.stdout
+        .split(/\r?\n/)
+        .filter((f) => f.trim() !== "")
+        .forEach((f) => files.add(f));
+    }
+    return Array.from(files);
+  }
+
+  /**
+   * Copies the changed files that still exist to a temp directory, keeping their paths relative to the app root
+   *
+   * @param appRoot Application root directory
+   * @param files Changed files relative to the app root
+   * @returns the temp directory to scan
+   */
+  private static async copyChangedFiles(
+    appRoot: string,
+    files: string[]
+  ): Promise<string> {
+    const incrementalScanDir: string = await Scan.createScanDir(
+      appRoot,
+      "incremental"
     );
-    const workspaceRoot: string = workspace?.workspaceFolders![0].uri.fsPath;
-    const workspaceName: string = workspace?.workspaceFolders![0].name;
-    const appRoot: string =
-      appRootFromConfig && appRootFromConfig !== ""
-        ? appRootFromConfig
-        : workspaceRoot;
-    const appName: string =
-      appNameFromConfig && appNameFromConfig !== ""
-        ? appNameFromConfig
-        : workspaceName;
-    const inspectArgs: string[] = [
-      "",
-      appName ? '"SHIFTLEFT_APP=' + appName + '"' : "",
-      orgId ? '"SHIFTLEFT_ORG_ID=' + orgId + '"' : "",
-      apiToken ? '"SHIFTLEFT_API_TOKEN=' + apiToken + '"' : "",
-      accessToken ? '"SHIFTLEFT_ACCESS_TOKEN=' + accessToken + '"' : "",
-    ];
-    const shell: string | boolean = Scan.isMac
-      ? process.env["SHELL"] || "/bin/bash"
-      : true;
-    // Process environment variables
-    const env: ExecOptions["env"] = {
-      WORKSPACE: appRoot,
-    };
-    const isInspectEnabled: boolean = !!orgId && !!apiToken && !!accessToken;
-    if (isInspectEnabled) {
-      env["SHIFTLEFT_ORG_ID"] = orgId;
-      env["SHIFTLEFT_API_TOKEN"] = apiToken;
-      env["SHIFTLEFT_ACCESS_TOKEN"] = accessToken;
-      if (containerImage === "shiftleft/sast-scan") {
-        containerImage = "shiftleft/scan-java";
+    // The scanner reads its settings from the .sastscanrc file of the scanned directory
+    for (const file of files.concat(Scan.scanRcFileName)) {
+      const source: string = path.join(appRoot, file);
+      if (!fs.existsSync(source)) {
+        continue;
       }
+      const target: string = path.join(incrementalScanDir, file);
+      await workspace.fs.createDirectory(Uri.file(path.dirname(target)));
+      await workspace.fs.copy(Uri.file(source), Uri.file(target), {
+        overwrite: true,
+      });
     }
-    let cmdArgs: string[] = [];
-    let baseCmd: string = Scan.isMac
-      ? "/Applications/Docker.app/Contents/Resources/bin/docker"
-      : "docker";
-    if (Scan.checkLocalCommand()) {
-      cmdArgs = ["--src", appRoot, "--mode", scanMode];
-      baseCmd = "scan";
-    } else {
-      cmdArgs = [
-        "run",
-        "--rm",
-        "-e",
-        '"WORKSPACE=' + appRoot + '"',
-        isInspectEnabled ? inspectArgs.join(" -e ") : "",
-        "-v",
-        '"' + appRoot + ':/app"',
-        containerImage,
-        "scan",
-        "--mode",
-        scanMode,
-      ];
-    }
-    cmdArgs = cmdArgs.filter((v) => v !== "");
-    const outputChannel: OutputChannel = window.createOutputChannel(
-      isInspectEnabled ? "ShiftLeft NextGen" : "Scan"
+    return incrementalScanDir;
+  }
+
+  /**
+   * Creates a temp directory for a scan of some of the files of the app root
+   * It's deleted along with its results once a full scan of the app root replaces them
+   *
+   * @param appRoot Application root directory
+   * @param kind Kind of the scan, part of the directory name
+   * @returns the temp directory
+   */
+  private static async createScanDir(
+    appRoot: string,
+    kind: string
+  ): Promise<string> {
+    const scanDir: string = path.join(
+      tmpdir(),
+      `shiftleft-scan-${kind}-${Date.now()}`
     );
-    if (isInspectEnabled) {
-      outputChannel.appendLine(`⚡︎ ShiftLeft NextGen scan has started ...`);
-    } else {
-      outputChannel.appendLine(`⚡︎ Security scan has started ...`);
+    await workspace.fs.createDirectory(Uri.file(scanDir));
+    const dirs: string[] = Scan.incrementalScanDirs.get(appRoot) || [];
+    dirs.push(scanDir);
+    Scan.incrementalScanDirs.set(appRoot, dirs);
+    return scanDir;
+  }
+
+  /**
+   * Replaces the results of the scanned files with the results of the incremental or path scan
+   * The results of the other files are kept
+   *
+   * @param incrementalScanDir Directory the reports of the scan are in
+   * @param scannedFiles Files or directories that were scanned
+   * @param launchExplorer Flag to show the results in the explorer once they're merged
+   */
+  private static async mergeIncrementalResults(
+    incrementalScanDir: string,
+    scannedFiles: Uri[],
+    launchExplorer: boolean
+  ): Promise<void> {
+    await commands.executeCommand(
+      "extension.shiftleft.MergeLogs",
+      Scan.getReports(incrementalScanDir),
+      scannedFiles
+    );
+    if (launchExplorer) {
+      await commands.executeCommand("extension.shiftleft.LaunchExplorer");
     }
-    outputChannel.appendLine(`${shell} ${baseCmd} ${cmdArgs.join(" ")}`);
-    outputChannel.show(true);
-    const proc: ChildProcess = spawn(baseCmd, cmdArgs, {
-      shell,
-      env: env,
-    });
-    proc.stdout.on("data", async (data: string) => {
-      setTimeout(async () => {
-        if (data.includes("========")) {
-          await Scan.showResults(workspaceRoot, appRoot);
+  }
+
+  /**
+   * Removes the results of the previous incremental scans of the app root, once a full scan replaced them
+   *
+   * @param appRoot Application root directory
+   */
+  private static async unloadIncrementalResults(
+    appRoot: string
+  ): Promise<void> {
+    const dirs: string[] = Scan.incrementalScanDirs.get(appRoot) || [];
+    Scan.incrementalScanDirs.delete(appRoot);
+    for (const dir of dirs) {
+      await commands.executeCommand(
+        "extension.shiftleft.UnloadLogs",
+        Scan.getReports(dir)
+      );
+      await workspace.fs.delete(Uri.file(dir), { recursive: true });
+    }
+  }
+
+  /**
+   * Returns the sarif reports the scan wrote to the reports directory of the scanned directory
+   *
+   * @param dir Scanned directory
+   */
+  private static getReports(dir: string): Uri[] {
+    const reportsDir: string = path.join(dir, "reports");
+    if (!fs.existsSync(reportsDir)) {
+      return [];
+    }
+    return fs
+      .readdirSync(reportsDir)
+      .filter((file) => file.endsWith(".sarif"))
+      .map((file) => Uri.file(path.join(reportsDir, file)));
+  }
+
+  /**
+   * Spawns the scan process and reports its output until it exits
+   *
+   * @param scanCommand Command to execute, its runner starts the process
+   * @param outputChannel Channel to write the scan output to
+   * @param progress Progress notification to update with the scan output
+   * @param token Cancellation token of the progress notification
+   * @param timeout Time in milliseconds after which the scan is stopped, 0 for no timeout
+   * @param onSummary Callback invoked when the scan summary gets printed
+   * @returns exit code, elapsed time and error output of the scan process
+   */
+  private static runScanProcess(
+    scanCommand: ScanCommand,
+    outputChannel: OutputChannel,
+    progress: Progress<{ message?: string; increment?: number }>,
+    token: CancellationToken,
+    timeout: number,
+    onSummary: () => Promise<void>
+  ): Promise<ScanResult> {
+    return new Promise<ScanResult>((resolve) => {
+      const startTime: Date = new Date();
+      let timedOut: boolean = false;
+      let errorOutput: string = "";
+      const appendErrorOutput: (text: string) => void = (text: string) => {
+        errorOutput = (errorOutput + ScanOutputParser.stripColours(text)).slice(
+          -Scan.maxErrorOutputLength
+        );
+      };
+      // Only the scan console shows the colours, the output channels would show the codes
+      const keepColours: boolean = outputChannel instanceof ScanConsole;
+      const proc: ChildProcess = scanCommand.runner.start(scanCommand);
+      Scan.scanProcesses.set(proc, scanCommand);
+      // The token outlives the process, so the listener is removed once the process is done
+      const cancellation: Disposable = token.onCancellationRequested(
+        Scan.cancelScan
+      );
+      const timer: NodeJS.Timer | undefined = timeout
+        ? setTimeout(() => {
+            timedOut = true;
+            scanCommand.runner.stop(proc, scanCommand);
+          }, timeout)
+        : undefined;
+      let summaryLoaded: Promise<void> = Promise.resolve();
+      // The output is written line by line, so the lines stay in order and a token split across chunks is still redacted
+      const parser: ScanOutputParser = new ScanOutputParser(
+        (scanProgress: ScanProgress) => {
+          if (scanProgress.kind === "summary") {
+            summaryLoaded = onSummary();
+          }
+          Scan.scanProgressEventEmitter.fire(scanProgress);
+        },
+        (line: string) => {
+          const text: string = Credentials.redact(line);
+          const plainText: string = ScanOutputParser.stripColours(text);
+          outputChannel.appendLine(keepColours ? text : plainText);
+          if (plainText.trim() !== "") {
+            progress.report({ message: plainText.trim() });
+          }
         }
-        outputChannel.appendLine(data);
-      }, 500);
-    });
-    proc.stderr.on("data", async (data: string) => {
-      setTimeout(async () => {
-        if (data.includes("========")) {
-          await Scan.showResults(workspaceRoot, appRoot);
+      );
+      proc.stdout.on("data", (data: string) =>
+        parser.write(data.toString(), "stdout")
+      );
+      proc.stderr.on("data", (data: string) => {
+        appendErrorOutput(data.toString());
+        parser.write(data.toString(), "stderr");
+      });
+      proc.on("error", (err: Error) => {
+        cancellation.dispose();
+        appendErrorOutput(err.message);
+        outputChannel.appendLine(Credentials.redact(err.message));
+      });
+      proc.on("close", (code: number | null) => {
+        cancellation.dispose();
+        Scan.scanProcesses.delete(proc);
+        if (timer) {
+          clearTimeout(timer);
         }
-        outputChannel.appendLine(data);
-      }, 500);
-    });
-    proc.on("close", async (code) => {
-      Scan.scanInProgress = false;
-      if (code !== 0) {
-        await window.showErrorMessage(
-          `Security scan has failed. Please check if docker desktop is running`,
-          { modal: false }
+        parser.end();
+        const result: ScanResult = {
+          code: code === null || timedOut ? -1 : code,
+          duration: Utilities.calcDuration(
+            startTime.toISOString(),
+            new Date().toISOString()
+          ),
+          errorOutput,
+          timedOut,
+        };
+        // The results loaded when the summary got printed have to be in before the scan is done
+        summaryLoaded.then(
+          () => resolve(result),
+          () => resolve(result)
         );
-      } else {
-        await Scan.showResults(workspaceRoot, appRoot);
-        outputChannel.hide();
-      }
+      });
     });
   }
 }
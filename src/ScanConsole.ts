@@ -0,0 +1,168 @@
+/**
+This file is part of Scan.
+
+Scan is free software: you can redistribute it and/or modify
+it under the terms of the GNU General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+Scan is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU General Public License for more details.
+
+You should have received a copy of the GNU General Public License
+along with Scan.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import {
+  Event,
+  EventEmitter,
+  OutputChannel,
+  Pseudoterminal,
+  Terminal,
+  ViewColumn,
+  window,
+} from "vscode";
+
+/**
+ * Terminal the scan output is written to, unlike an output channel it keeps the colours of the scanner
+ * Ctrl+C or closing the terminal interrupts the scan, the output is written through the output channel methods
+ */
+export class ScanConsole implements OutputChannel, Pseudoterminal {
+  /**
+   * Terminals of the open consoles, the terminal links are only provided in them
+   */
+  private static readonly terminals: Set<Terminal> = new Set<Terminal>();
+
+  private readonly writeEventEmitter: EventEmitter<string> = new EventEmitter<
+    string
+  >();
+
+  public get onDidWrite(): Event<string> {
+    return this.writeEventEmitter.event;
+  }
+
+  private readonly terminal: Terminal;
+
+  /**
+   * Output written before the terminal got opened
+   */
+  private pending: string[] | undefined = [];
+  private closed: boolean = false;
+
+  /**
+   * @param name name of the terminal
+   * @param onInterrupt callback invoked when the user presses Ctrl+C or closes the terminal
+   */
+  public constructor(
+    public readonly name: string,
+    private readonly onInterrupt: () => void
+  ) {
+    this.terminal = window.createTerminal({ name, pty: this });
+    ScanConsole.terminals.add(this.terminal);
+  }
+
+  /**
+   * Checks if the terminal is the one of a scan console
+   * @param terminal terminal to check
+   */
+  public static isScanConsole(terminal: Terminal): boolean {
+    return ScanConsole.terminals.has(terminal);
+  }
+
+  /**
+   * Checks if the user closed the terminal, the output written to a closed console is dropped
+   */
+  public get isClosed(): boolean {
+    return this.closed;
+  }
+
+  /**
+   * Called by vscode when the terminal is ready, writes the output that came before
+   */
+  public open(): void {
+    const pending: string[] = this.pending || [];
+    this.pending = undefined;
+    for (const text of pending) {
+      this.writeEventEmitter.fire(text);
+    }
+  }
+
+  /**
+   * Called by vscode when the user closes the terminal, interrupts the scan writing to it
+   */
+  public close(): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    ScanConsole.terminals.delete(this.terminal);
+    this.onInterrupt();
+  }
+
+  /**
+   * Called by vscode with the keys the user presses in the terminal, Ctrl+C interrupts the scan
+   * @param data typed text
+   */
+  public handleInput(data: string): void {
+    if (data === "\x03") {
+      this.write("^C\r\n");
+      this.onInterrupt();
+    }
+  }
+
+  public append(value: string): void {
+    this.write(value.replace(/\r?\n/g, "\r\n"));
+  }
+
+  public appendLine(value: string): void {
+    this.append(`${value}\n`);
+  }
+
+  /**
+   * Clears the screen and the scrollback of the terminal
+   */
+  public clear(): void {
+    this.write("\x1bc");
+  }
+
+  public show(
+    columnOrPreserveFocus?: ViewColumn | boolean,
+    preserveFocus?: boolean
+  ): void {
+    this.terminal.show(
+      typeof columnOrPreserveFocus === "boolean"
+        ? columnOrPreserveFocus
+        : preserveFocus
+    );
+  }
+
+  public hide(): void {
+    this.terminal.hide();
+  }
+
+  /**
+   * Closes the terminal without interrupting the scan
+   */
+  public dispose(): void {
+    this.closed = true;
+    ScanConsole.terminals.delete(this.terminal);
+    this.terminal.dispose();
+    this.writeEventEmitter.dispose();
+  }
+
+  /**
+   * Writes the text to the terminal, or keeps it until the terminal gets opened
+   * @param text text with \r\n line endings, may contain ansi colour codes
+   */
+  private write(text: string): void {
+    if (this.closed) {
+      return;
+    }
+    if (this.pending) {
+      this.pending.push(text);
+      return;
+    }
+    this.writeEventEmitter.fire(text);
+  }
+}
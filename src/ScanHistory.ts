@@ -0,0 +1,296 @@
+/**
+This file is part of Scan.
+
+Scan is free software: you can redistribute it and/or modify
+it under the terms of the GNU General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+Scan is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU General Public License for more details.
+
+You should have received a copy of the GNU General Public License
+along with Scan.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import * as fs from "fs";
+import * as path from "path";
+import { spawnSync, SpawnSyncReturns } from "child_process";
+import {
+  commands,
+  Disposable,
+  ExtensionContext,
+  QuickPickItem,
+  Uri,
+  window,
+  workspace,
+  WorkspaceConfiguration,
+} from "vscode";
+import { ScanHistoryEntry } from "./common/Interfaces";
+import { FolderScannedEvent, Scan } from "./Scan";
+import { SVDiagnosticCollection } from "./SVDiagnosticCollection";
+import { Utilities } from "./Utilities";
+
+/**
+ * Archives the reports of every completed scan along with its metadata, so past runs can be loaded again
+ * Each run is kept in its own directory of the extension's storage, the oldest runs are pruned by the retention settings
+ */
+export class ScanHistory implements Disposable {
+  private disposables: Disposable[] = [];
+
+  public static readonly ShowScanHistoryCommand =
+    "extension.shiftleft.ShowScanHistory";
+
+  private static readonly metadataFileName = "scan.json";
+
+  private readonly configHistoryMaxRuns = "historyMaxRuns";
+  private readonly configHistoryMaxAgeDays = "historyMaxAgeDays";
+
+  /**
+   * Directory the runs are archived in
+   */
+  private readonly historyDir: string;
+
+  public constructor(
+    extensionContext: ExtensionContext,
+    private readonly diagnosticCollection: SVDiagnosticCollection
+  ) {
+    this.historyDir = path.join(
+      (extensionContext.storageUri || extensionContext.globalStorageUri).fsPath,
+      "history"
+    );
+    this.disposables.push(
+      commands.registerCommand(ScanHistory.ShowScanHistoryCommand, () =>
+        this.showHistory()
+      )
+    );
+    this.disposables.push(Scan.onFolderScanned(this.archive, this));
+  }
+
+  /**
+   * For disposing on extension close
+   */
+  public dispose(): void {
+    Disposable.from(...this.disposables).dispose();
+    this.disposables = [];
+  }
+
+  /**
+   * Copies the reports of the scan to a new run directory with its metadata and prunes the old runs
+   * @param event the completed scan
+   */
+  private async archive(event: FolderScannedEvent): Promise<void> {
+    const sarifConfig: WorkspaceConfiguration = workspace.getConfiguration(
+      Utilities.configSection
+    );
+    if (
+      !event.reports.length ||
+      !sarifConfig.get(this.configHistoryMaxRuns, 20)
+    ) {
+      return;
+    }
+
+    const time: Date = new Date();
+    // The suffix keeps the runs of the apps scanned in parallel apart
+    const id: string = `${time
+      .toISOString()
+      .replace(/[:.]/g, "-")}-${Math.random().toString(36).substring(2, 8)}`;
+    const runDir: string = path.join(this.historyDir, id);
+    try {
+      await workspace.fs.createDirectory(Uri.file(runDir));
+      for (const report of event.reports) {
+        await workspace.fs.copy(
+          report,
+          Uri.file(path.join(runDir, path.basename(report.fsPath))),
+          { overwrite: true }
+        );
+      }
+
+      const entry: ScanHistoryEntry = {
+        appRoot: event.appRoot,
+        branch: ScanHistory.git(event.appRoot, [
+          "rev-parse",
+          "--abbrev-ref",
+          "HEAD",
+        ]),
+        commit: ScanHistory.git(event.appRoot, [
+          "rev-parse",
+          "--short",
+          "HEAD",
+        ]),
+        counts: this.countResults(event.reports),
+        duration: event.duration,
+        folder: event.folder.name,
+        id,
+        incremental: event.incremental,
+        profile: event.profile,
+        reports: event.reports.map((report) => path.basename(report.fsPath)),
+        time: time.toISOString(),
+      };
+      fs.writeFileSync(
+        path.join(runDir, ScanHistory.metadataFileName),
+        JSON.stringify(entry, undefined, 2)
+      );
+    } catch (error) {
+      await window.showErrorMessage(
+        `Scan: Cannot archive the scan of ${event.folder.name} in the history because: ${error.message}`
+      );
+      return;
+    }
+
+    await this.prune();
+  }
+
+  /**
+   * Lets the user pick a past run and loads its reports into the viewer
+   */
+  private async showHistory(): Promise<void> {
+    const entries: ScanHistoryEntry[] = this.readEntries();
+    if (!entries.length) {
+      await window.showInformationMessage(
+        "Scan: The scan history is empty. Completed scans are archived in it."
+      );
+      return;
+    }
+
+    interface EntryQuickPickItem extends QuickPickItem {
+      entry: ScanHistoryEntry;
+    }
+
+    const picked: EntryQuickPickItem | undefined = await window.showQuickPick(
+      entries.map((entry) => ({
+        description: [
+          entry.folder,
+          entry.branch && entry.commit
+            ? `${entry.branch} @ ${entry.commit}`
+            : entry.commit,
+          entry.incremental ? "incremental" : undefined,
+        ]
+          .filter((part) => !!part)
+          .join(" · "),
+        detail: [
+          `${entry.counts.error} errors, ${entry.counts.warning} warnings, ${entry.counts.note} notes`,
+          entry.profile ? `profile ${entry.profile}` : undefined,
+          entry.duration,
+        ]
+          .filter((part) => !!part)
+          .join(" · "),
+        entry,
+        label: `$(history) ${new Date(entry.time).toLocaleString()}`,
+      })),
+      { matchOnDescription: true, placeHolder: "Select a past scan to load" }
+    );
+    if (!picked) {
+      return;
+    }
+
+    const runDir: string = path.join(this.historyDir, picked.entry.id);
+    await commands.executeCommand(
+      "extension.shiftleft.LoadLogs",
+      picked.entry.reports.map((report) => Uri.file(path.join(runDir, report)))
+    );
+    await commands.executeCommand("extension.shiftleft.LaunchExplorer");
+  }
+
+  /**
+   * Returns the metadata of the archived runs, most recent first
+   */
+  private readEntries(): ScanHistoryEntry[] {
+    if (!fs.existsSync(this.historyDir)) {
+      return [];
+    }
+
+    const entries: ScanHistoryEntry[] = [];
+    for (const id of fs.readdirSync(this.historyDir)) {
+      try {
+        entries.push(
+          JSON.parse(
+            fs.readFileSync(
+              path.join(this.historyDir, id, ScanHistory.metadataFileName),
+              "utf8"
+            )
+          )
+        );
+      } catch (error) {
+        // Not a run directory, or a run that is still being archived
+      }
+    }
+    return entries.sort((a, b) => b.time.localeCompare(a.time));
+  }
+
+  /**
+   * Deletes the runs over the max number of runs and the runs older than the max age from the settings
+   */
+  private async prune(): Promise<void> {
+    const sarifConfig: WorkspaceConfiguration = workspace.getConfiguration(
+      Utilities.configSection
+    );
+    const maxRuns: number = sarifConfig.get(this.configHistoryMaxRuns, 20);
+    const maxAgeDays: number = sarifConfig.get(
+      this.configHistoryMaxAgeDays,
+      30
+    );
+    const oldest: number =
+      maxAgeDays > 0 ? Date.now() - maxAgeDays * 24 * 60 * 60 * 1000 : 0;
+
+    const entries: ScanHistoryEntry[] = this.readEntries();
+    for (let index: number = 0; index < entries.length; index++) {
+      if (
+        index >= maxRuns ||
+        new Date(entries[index].time).getTime() < oldest
+      ) {
+        await workspace.fs.delete(
+          Uri.file(path.join(this.historyDir, entries[index].id)),
+          { recursive: true }
+        );
+      }
+    }
+  }
+
+  /**
+   * Counts the results the reader loaded from the reports by level, the level of a result defaults to warning
+   * as in sarif and the level none counts as a note
+   * @param reports sarif reports of the scan, they are loaded by the time the scan completes
+   */
+  private countResults(reports: Uri[]): ScanHistoryEntry["counts"] {
+    const counts: ScanHistoryEntry["counts"] = {
+      error: 0,
+      note: 0,
+      warning: 0,
+    };
+    const reportPaths: string[] = reports.map((report) => report.fsPath);
+    for (const diagnostic of this.diagnosticCollection.getAllDiagnostics()) {
+      if (
+        reportPaths.indexOf(diagnostic.resultInfo.runInfo.sarifFileFullPath) ===
+        -1
+      ) {
+        continue;
+      }
+      switch (diagnostic.resultInfo.severityLevel) {
+        case "error":
+          counts.error++;
+          break;
+        case "warning":
+          counts.warning++;
+          break;
+        default:
+          counts.note++;
+      }
+    }
+    return counts;
+  }
+
+  /**
+   * Runs a git command in the app root and returns its output, undefined if it isn't a git repository
+   * @param appRoot Application root directory
+   * @param gitArgs Arguments for git
+   */
+  private static git(appRoot: string, gitArgs: string[]): string | undefined {
+    const ret: SpawnSyncReturns<string> = spawnSync("git", gitArgs, {
+      cwd: appRoot,
+      encoding: "utf8",
+    });
+    return ret.status === 0 && !ret.error ? ret.stdout.trim() : undefined;
+  }
+}
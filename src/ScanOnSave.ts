@@ -0,0 +1,202 @@
+/**
+This file is part of Scan.
+
+Scan is free software: you can redistribute it and/or modify
+it under the terms of the GNU General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+Scan is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU General Public License for more details.
+
+You should have received a copy of the GNU General Public License
+along with Scan.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import * as fs from "fs";
+import * as path from "path";
+import {
+  Disposable,
+  TextDocument,
+  workspace,
+  WorkspaceConfiguration,
+  WorkspaceFolder,
+} from "vscode";
+import { Scan } from "./Scan";
+import { Utilities } from "./Utilities";
+
+/**
+ * A saved file waiting to be scanned
+ */
+interface PendingFileScan {
+  folder: WorkspaceFolder;
+  type: string;
+}
+
+/**
+ * Scans the saved documents in the background when scan on save is turned on in the settings
+ * Saves are debounced, and the files saved while a scan is running are queued until it completes
+ */
+export class ScanOnSave implements Disposable {
+  private disposables: Disposable[] = [];
+
+  /**
+   * Scan types of the languages the scanner supports, keyed by the language id of the document
+   */
+  private static readonly ScanTypes: { [languageId: string]: string } = {
+    go: "go",
+    groovy: "groovy",
+    java: "java",
+    javascript: "nodejs",
+    javascriptreact: "nodejs",
+    kotlin: "kotlin",
+    php: "php",
+    python: "python",
+    ruby: "ruby",
+    rust: "rust",
+    shellscript: "bash",
+    terraform: "terraform",
+    typescript: "nodejs",
+    typescriptreact: "nodejs",
+    yaml: "yaml",
+  };
+
+  /**
+   * Languages whose files can't be analyzed on their own, the whole package (directory) of the file gets scanned
+   */
+  private static readonly PackageLanguages: string[] = ["go", "java", "kotlin"];
+
+  private readonly configScanOnSave = "scanOnSave";
+  private readonly configScanOnSaveDelay = "scanOnSaveDelay";
+
+  /**
+   * Pending debounce timers keyed by the path of the saved document
+   */
+  private readonly timers: Map<string, NodeJS.Timer> = new Map<
+    string,
+    NodeJS.Timer
+  >();
+
+  /**
+   * Saved files that are waiting for the running scan to complete, keyed by their path
+   */
+  private readonly queue: Map<string, PendingFileScan> = new Map<
+    string,
+    PendingFileScan
+  >();
+
+  public constructor() {
+    this.disposables.push(
+      workspace.onDidSaveTextDocument(this.onDocumentSaved, this)
+    );
+    this.disposables.push(Scan.onScanCompleted(this.scanQueuedFiles, this));
+  }
+
+  /**
+   * For disposing on extension close
+   */
+  public dispose(): void {
+    Disposable.from(...this.disposables).dispose();
+    this.disposables = [];
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.timers.clear();
+    this.queue.clear();
+  }
+
+  /**
+   * Schedules a scan of the saved document once the saves settle down
+   * @param doc document that was saved
+   */
+  private onDocumentSaved(doc: TextDocument): void {
+    const type: string | undefined = ScanOnSave.ScanTypes[doc.languageId];
+    const folder: WorkspaceFolder | undefined = workspace.getWorkspaceFolder(
+      doc.uri
+    );
+    if (doc.uri.scheme !== "file" || !type || !folder) {
+      return;
+    }
+
+    const sarifConfig: WorkspaceConfiguration = workspace.getConfiguration(
+      Utilities.configSection,
+      doc.uri
+    );
+    if (!sarifConfig.get(this.configScanOnSave, false)) {
+      return;
+    }
+
+    const filePath: string =
+      ScanOnSave.PackageLanguages.indexOf(type) !== -1
+        ? path.dirname(doc.uri.fsPath)
+        : doc.uri.fsPath;
+    const pending: NodeJS.Timer | undefined = this.timers.get(filePath);
+    if (pending) {
+      clearTimeout(pending);
+    }
+
+    this.timers.set(
+      filePath,
+      setTimeout(() => {
+        this.timers.delete(filePath);
+        this.queue.set(filePath, { folder, type });
+        void this.scanQueuedFiles();
+      }, sarifConfig.get(this.configScanOnSaveDelay, 2000))
+    );
+  }
+
+  /**
+   * Scans the queued files of a workspace folder, unless a scan is already running or a manual scan is waiting to run
+   * The files of the other folders stay queued and get scanned once this scan completes
+   */
+  private async scanQueuedFiles(): Promise<void> {
+    if (Scan.isScanRunning() || Scan.isScanQueued() || this.queue.size === 0) {
+      return;
+    }
+
+    const folder: WorkspaceFolder = this.queue.values().next().value.folder;
+    const appRoot: string = Scan.getAppRoot(folder);
+    const files: Set<string> = new Set<string>();
+    const types: Set<string> = new Set<string>();
+    for (const [filePath, pending] of Array.from(this.queue.entries())) {
+      if (pending.folder !== folder) {
+        continue;
+      }
+
+      this.queue.delete(filePath);
+      for (const file of ScanOnSave.getFiles(filePath)) {
+        const relativePath: string = path.relative(appRoot, file);
+        if (!relativePath.startsWith("..") && !path.isAbsolute(relativePath)) {
+          files.add(relativePath);
+          types.add(pending.type);
+        }
+      }
+    }
+
+    if (files.size) {
+      await Scan.performSastScan([folder], {
+        files: Array.from(files),
+        types: Array.from(types),
+      });
+    }
+  }
+
+  /**
+   * Returns the files to scan for the queued path, the files of the directory if it's a package
+   * @param filePath path of the saved file or its package
+   */
+  private static getFiles(filePath: string): string[] {
+    try {
+      if (!fs.statSync(filePath).isDirectory()) {
+        return [filePath];
+      }
+
+      return fs
+        .readdirSync(filePath)
+        .map((file) => path.join(filePath, file))
+        .filter((file) => fs.statSync(file).isFile());
+    } catch (error) {
+      // The file was deleted since it got saved
+      return [];
+    }
+  }
+}
@@ -0,0 +1,185 @@
+/**
+This file is part of Scan.
+
+Scan is free software: you can redistribute it and/or modify
+it under the terms of the GNU General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+Scan is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU General Public License for more details.
+
+You should have received a copy of the GNU General Public License
+along with Scan.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import { ScanProgress } from "./common/Interfaces";
+
+// This module doesn't depend on the vscode module, so the parser can be fed recorded scanner output
+
+/**
+ * Parses the output of the scanner line by line into progress events
+ * The tools run one after another, so a tool is finished once the next one starts or the summary gets printed
+ */
+export class ScanOutputParser {
+  // Ex. ⚡︎ Executing "Security audit for python" ...
+  private static readonly toolStartedPattern: RegExp = /Executing\s+"?([^"]+?)"?\s*(?:\.\.\.)?\s*$/i;
+  // Ex. Scanned 120 files, 120 files scanned
+  private static readonly filesScannedPattern: RegExp = /\b(?:scanned|analy[sz]ed)\s+(\d+)\s+files?\b|\b(\d+)\s+files?\s+(?:scanned|analy[sz]ed)\b/i;
+  private static readonly summaryPattern: RegExp = /Security Scan Summary|={8,}/i;
+  // Cells of the summary table rows, box drawn or ascii
+  private static readonly tableSeparatorPattern: RegExp = /[│┃|]/;
+
+  private readonly progress: ScanProgress = {
+    filesScanned: 0,
+    findings: 0,
+    kind: "toolStarted",
+    toolsFinished: 0,
+    toolsStarted: 0,
+  };
+
+  /**
+   * Partial last line of each output stream
+   */
+  private readonly pending: { [stream: string]: string } = {};
+  private inSummary: boolean = false;
+
+  /**
+   * @param onProgress callback invoked with each progress event
+   * @param onLine callback invoked with each complete line of the output
+   */
+  public constructor(
+    private readonly onProgress: (progress: ScanProgress) => void,
+    private readonly onLine?: (line: string) => void
+  ) {}
+
+  /**
+   * Returns the text without its ansi colour codes
+   * @param text text to strip
+   */
+  public static stripColours(text: string): string {
+    // tslint:disable-next-line: no-control-regex
+    return text.replace(/\x1b\[[0-9;]*[A-Za-z]/g, "");
+  }
+
+  /**
+   * Parses the next chunk of the output of a stream
+   * @param chunk output text
+   * @param stream name of the stream, the partial lines of each stream are kept apart
+   */
+  public write(chunk: string, stream: string = "stdout"): void {
+    const lines: string[] = ((this.pending[stream] || "") + chunk).split(
+      /\r?\n/
+    );
+    this.pending[stream] = lines.pop() || "";
+    for (const line of lines) {
+      this.parseLine(line);
+    }
+  }
+
+  /**
+   * Parses the partial last lines once the streams are closed
+   */
+  public end(): void {
+    for (const stream of Object.keys(this.pending)) {
+      if (this.pending[stream]) {
+        this.parseLine(this.pending[stream]);
+      }
+      this.pending[stream] = "";
+    }
+    this.finishTool();
+  }
+
+  /**
+   * Parses a line of the output into progress events
+   * @param line line of output, may contain ansi colour codes
+   */
+  private parseLine(line: string): void {
+    const text: string = ScanOutputParser.stripColours(line).trim();
+    if (this.onLine) {
+      this.onLine(line);
+    }
+    if (!text) {
+      return;
+    }
+
+    if (ScanOutputParser.summaryPattern.test(text)) {
+      if (!this.inSummary) {
+        this.inSummary = true;
+        this.finishTool();
+        this.emit("summary");
+      }
+      return;
+    }
+
+    if (this.inSummary) {
+      this.parseSummaryRow(text);
+      return;
+    }
+
+    const toolStarted: RegExpMatchArray | null = text.match(
+      ScanOutputParser.toolStartedPattern
+    );
+    if (toolStarted) {
+      this.finishTool();
+      this.progress.tool = toolStarted[1].trim();
+      this.progress.toolsStarted++;
+      this.emit("toolStarted");
+      return;
+    }
+
+    const filesScanned: RegExpMatchArray | null = text.match(
+      ScanOutputParser.filesScannedPattern
+    );
+    if (filesScanned) {
+      this.progress.filesScanned = Math.max(
+        this.progress.filesScanned,
+        parseInt(filesScanned[1] || filesScanned[2], 10)
+      );
+      this.emit("filesScanned");
+    }
+  }
+
+  /**
+   * Adds the findings of a row of the summary table, ex. │ Python Source Analyzer │ 0 │ 2 │ 1 │ 0 │ ✅ │
+   * The first cell is the tool, the numbers after it are the findings by severity
+   * @param text line of the summary without colour codes
+   */
+  private parseSummaryRow(text: string): void {
+    const cells: string[] = text
+      .split(ScanOutputParser.tableSeparatorPattern)
+      .map((cell) => cell.trim())
+      .filter((cell) => cell !== "");
+    const counts: number[] = cells
+      .slice(1)
+      .filter((cell) => /^\d+$/.test(cell))
+      .map((cell) => parseInt(cell, 10));
+    if (!counts.length) {
+      return;
+    }
+
+    this.progress.tool = cells[0];
+    this.progress.findings += counts.reduce((sum, count) => sum + count, 0);
+    this.emit("findings");
+  }
+
+  /**
+   * Marks the running tool as finished
+   */
+  private finishTool(): void {
+    if (this.progress.toolsFinished < this.progress.toolsStarted) {
+      this.progress.toolsFinished++;
+      this.emit("toolFinished");
+    }
+  }
+
+  /**
+   * Invokes the callback with a copy of the progress so far
+   * @param kind what the event is about
+   */
+  private emit(kind: ScanProgress["kind"]): void {
+    this.progress.kind = kind;
+    this.onProgress({ ...this.progress });
+  }
+}
@@ -0,0 +1,170 @@
+/**
+This file is part of Scan.
+
+Scan is free software: you can redistribute it and/or modify
+it under the terms of the GNU General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+Scan is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU General Public License for more details.
+
+You should have received a copy of the GNU General Public License
+along with Scan.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import {
+  Disposable,
+  ShellExecution,
+  Task,
+  TaskDefinition,
+  TaskProcessEndEvent,
+  TaskProvider,
+  tasks,
+  TaskScope,
+  workspace,
+  WorkspaceFolder,
+} from "vscode";
+import { Credentials } from "./Credentials";
+import { ScanCommand } from "./runners/ScanRunner";
+import { Scan } from "./Scan";
+
+/**
+ * Definition of a scan task in tasks.json
+ */
+export interface ScanTaskDefinition extends TaskDefinition {
+  /**
+   * Scan mode, defaults to the scan mode setting
+   */
+  mode?: string;
+
+  /**
+   * Application root relative to the workspace folder, defaults to the app root setting
+   */
+  src?: string;
+}
+
+/**
+ * Provides the scans as tasks, so they can be declared in tasks.json, chained with other tasks and bound to keys
+ * The results of a scan task are loaded once its process ends
+ */
+export class ScanTaskProvider implements TaskProvider, Disposable {
+  private disposables: Disposable[] = [];
+
+  public static readonly TaskType = "slscan";
+
+  public constructor() {
+    this.disposables.push(
+      tasks.registerTaskProvider(ScanTaskProvider.TaskType, this)
+    );
+    this.disposables.push(
+      tasks.onDidEndTaskProcess(this.onTaskProcessEnded, this)
+    );
+  }
+
+  /**
+   * For disposing on extension close
+   */
+  public dispose(): void {
+    Disposable.from(...this.disposables).dispose();
+    this.disposables = [];
+  }
+
+  /**
+   * Provides a scan task for each of the workspace folders
+   */
+  public provideTasks(): Task[] {
+    return (workspace.workspaceFolders || []).map((folder) =>
+      ScanTaskProvider.createTask(folder, { type: ScanTaskProvider.TaskType })
+    );
+  }
+
+  /**
+   * Fills in the execution of a scan task declared in tasks.json
+   * @param task task from tasks.json
+   */
+  public resolveTask(task: Task): Task | undefined {
+    const folder: WorkspaceFolder | undefined = ScanTaskProvider.getFolder(
+      task
+    );
+    if (!folder) {
+      return undefined;
+    }
+
+    return ScanTaskProvider.createTask(
+      folder,
+      <ScanTaskDefinition>task.definition
+    );
+  }
+
+  /**
+   * Loads the results of a scan task once its process ends
+   * @param event task process end event
+   */
+  private async onTaskProcessEnded(event: TaskProcessEndEvent): Promise<void> {
+    const task: Task = event.execution.task;
+    const folder: WorkspaceFolder | undefined = ScanTaskProvider.getFolder(
+      task
+    );
+    if (task.definition.type !== ScanTaskProvider.TaskType || !folder) {
+      return;
+    }
+
+    const definition: ScanTaskDefinition = <ScanTaskDefinition>task.definition;
+    const scanCommand: ScanCommand = Scan.getScanCommand(folder, undefined, {
+      mode: definition.mode,
+      src: definition.src,
+    });
+    if (scanCommand.mountMapping) {
+      await Scan.recordMountMapping(scanCommand.mountMapping);
+    }
+
+    // The scan fails the build when it finds issues, so the reports are loaded whatever the exit code is
+    await Scan.showResults(scanCommand.appRoot);
+  }
+
+  /**
+   * Creates the scan task of the workspace folder
+   * @param folder workspace folder to scan
+   * @param definition task definition
+   */
+  private static createTask(
+    folder: WorkspaceFolder,
+    definition: ScanTaskDefinition
+  ): Task {
+    const scanCommand: ScanCommand = Scan.getScanCommand(
+      folder,
+      Credentials.get(),
+      { mode: definition.mode, src: definition.src }
+    );
+    const name: string = definition.mode
+      ? `Security scan (${definition.mode})`
+      : "Security scan";
+    return new Task(
+      definition,
+      folder,
+      name,
+      ScanTaskProvider.TaskType,
+      // The task shell quotes the arguments, the command line of the custom runner is run as it is
+      scanCommand.cmdArgs.length
+        ? new ShellExecution(scanCommand.baseCmd, scanCommand.cmdArgs, {
+            env: scanCommand.env,
+          })
+        : new ShellExecution(scanCommand.baseCmd, { env: scanCommand.env }),
+      []
+    );
+  }
+
+  /**
+   * Returns the workspace folder of the task, undefined for global and workspace tasks
+   * @param task the task
+   */
+  private static getFolder(task: Task): WorkspaceFolder | undefined {
+    return task.scope !== undefined &&
+      task.scope !== TaskScope.Global &&
+      task.scope !== TaskScope.Workspace
+      ? task.scope
+      : undefined;
+  }
+}
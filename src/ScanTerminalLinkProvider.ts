@@ -0,0 +1,323 @@
+/**
+This file is part of Scan.
+
+Scan is free software: you can redistribute it and/or modify
+it under the terms of the GNU General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+Scan is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU General Public License for more details.
+
+You should have received a copy of the GNU General Public License
+along with Scan.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import * as fs from "fs";
+import * as path from "path";
+import {
+  commands,
+  Disposable,
+  Position,
+  QuickPickItem,
+  Range,
+  Selection,
+  TerminalLink,
+  TerminalLinkContext,
+  TerminalLinkProvider,
+  TextEditor,
+  TextEditorRevealType,
+  Uri,
+  window,
+  workspace,
+} from "vscode";
+import { PathRewriteRule } from "./common/Interfaces";
+import { ExplorerController } from "./ExplorerController";
+import { SarifViewerVsCodeDiagnostic } from "./SarifViewerDiagnostic";
+import { Scan } from "./Scan";
+import { ScanConsole } from "./ScanConsole";
+
+/**
+ * Link to a source location or to the results of a rule in the output of a scan
+ */
+interface ScanTerminalLink extends TerminalLink {
+  // Source file and 1 based line of a file:line reference
+  file?: string;
+  line?: number;
+  // Rule id of the results to select in the results list
+  ruleId?: string;
+}
+
+/**
+ * What the file references of a line are resolved with, looked up once per line
+ */
+interface FileLookup {
+  // App roots and workspace folders the relative paths are resolved against
+  roots: string[];
+  // Container mounts of the docker scans
+  mountMappings: PathRewriteRule[];
+  // Paths that were checked for existence
+  existing: Map<string, boolean>;
+}
+
+/**
+ * Turns the file:line references and the rule ids in the tables of the scan console into links
+ * A file link opens the source at the line, a rule link selects the matching result in the results list
+ */
+export class ScanTerminalLinkProvider
+  implements TerminalLinkProvider<ScanTerminalLink>, Disposable {
+  private disposables: Disposable[] = [];
+
+  // Ex. src/app.py:12 or /scans/3f2a9c1b7d04/src/app.py:12:5
+  private static readonly fileLinePattern: RegExp = /([^\s│┃|:"'()\[\]]+\.[A-Za-z0-9]+):(\d+)(?::\d+)?/g;
+  // Cells and words of the summary tables
+  private static readonly wordPattern: RegExp = /[^\s│┃|,;"'()\[\]]+/g;
+  // Row of a table, the rule ids are only linked in the cells of the summary and findings tables
+  private static readonly tableRowPattern: RegExp = /[│┃|].*[│┃|]/;
+
+  /**
+   * Rule ids of the loaded results, built when a line is checked after the results changed
+   */
+  private ruleIds: Set<string> | undefined;
+
+  public constructor(private readonly explorerController: ExplorerController) {
+    this.disposables.push(window.registerTerminalLinkProvider(this));
+    this.disposables.push(
+      explorerController.diagnosticCollection.diagnosticCollectionChanged(
+        () => {
+          this.ruleIds = undefined;
+        }
+      )
+    );
+  }
+
+  /**
+   * For disposing on extension close
+   */
+  public dispose(): void {
+    Disposable.from(...this.disposables).dispose();
+    this.disposables = [];
+  }
+
+  /**
+   * Finds the file:line references to existing files and the rule ids of the loaded results in a line of a scan console
+   * @param context line of the terminal
+   */
+  public provideTerminalLinks(
+    context: TerminalLinkContext
+  ): ScanTerminalLink[] {
+    if (!ScanConsole.isScanConsole(context.terminal)) {
+      return [];
+    }
+
+    const links: ScanTerminalLink[] = [];
+    const fileLinePattern: RegExp = new RegExp(
+      ScanTerminalLinkProvider.fileLinePattern
+    );
+    let lookup: FileLookup | undefined;
+    let match: RegExpExecArray | null;
+    while ((match = fileLinePattern.exec(context.line))) {
+      lookup = lookup || ScanTerminalLinkProvider.createFileLookup();
+      const file: string | undefined = ScanTerminalLinkProvider.resolveFile(
+        match[1],
+        lookup
+      );
+      if (file) {
+        links.push({
+          file,
+          length: match[0].length,
+          line: parseInt(match[2], 10),
+          startIndex: match.index,
+          tooltip: "Open the source",
+        });
+      }
+    }
+
+    if (!ScanTerminalLinkProvider.tableRowPattern.test(context.line)) {
+      return links;
+    }
+    const ruleIds: Set<string> = this.getRuleIds();
+    const wordPattern: RegExp = new RegExp(
+      ScanTerminalLinkProvider.wordPattern
+    );
+    while ((match = wordPattern.exec(context.line))) {
+      const word: string = match[0];
+      const startIndex: number = match.index;
+      // A word within a file link isn't a rule id
+      if (
+        ruleIds.has(word) &&
+        !links.some(
+          (link) =>
+            startIndex < link.startIndex + link.length &&
+            link.startIndex < startIndex + word.length
+        )
+      ) {
+        links.push({
+          length: word.length,
+          ruleId: word,
+          startIndex,
+          tooltip: "Show the result in the results list",
+        });
+      }
+    }
+    return links;
+  }
+
+  /**
+   * Opens the source of a file link or selects the result of a rule link
+   * @param link link the user clicked
+   */
+  public async handleTerminalLink(link: ScanTerminalLink): Promise<void> {
+    if (link.file) {
+      const editor: TextEditor = await window.showTextDocument(
+        Uri.file(link.file)
+      );
+      const position: Position = new Position(
+        Math.max((link.line || 1) - 1, 0),
+        0
+      );
+      editor.selection = new Selection(position, position);
+      editor.revealRange(
+        new Range(position, position),
+        TextEditorRevealType.InCenterIfOutsideViewport
+      );
+    } else if (link.ruleId) {
+      await this.selectResult(link.ruleId);
+    }
+  }
+
+  /**
+   * Selects the result of the rule in the results list, the user picks the result if the rule has more than one
+   * @param ruleId rule id of the results
+   */
+  private async selectResult(ruleId: string): Promise<void> {
+    const diagnostics: SarifViewerVsCodeDiagnostic[] = this.explorerController.diagnosticCollection
+      .getAllDiagnostics()
+      .filter((diagnostic) => diagnostic.resultInfo.ruleId === ruleId);
+    if (!diagnostics.length) {
+      await window.showInformationMessage(
+        `Scan: There are no results of the rule ${ruleId} loaded.`
+      );
+      return;
+    }
+
+    interface ResultQuickPickItem extends QuickPickItem {
+      diagnostic: SarifViewerVsCodeDiagnostic;
+    }
+
+    let diagnostic: SarifViewerVsCodeDiagnostic | undefined = diagnostics[0];
+    if (diagnostics.length > 1) {
+      const picked:
+        | ResultQuickPickItem
+        | undefined = await window.showQuickPick(
+        diagnostics.map((item) => ({
+          description:
+            item.resultInfo.assignedLocation &&
+            item.resultInfo.assignedLocation.uri
+              ? `${workspace.asRelativePath(
+                  item.resultInfo.assignedLocation.uri
+                )}:${item.resultInfo.assignedLocation.range.start.line + 1}`
+              : undefined,
+          diagnostic: item,
+          label: item.message,
+        })),
+        { matchOnDescription: true, placeHolder: `Results of ${ruleId}` }
+      );
+      diagnostic = picked && picked.diagnostic;
+    }
+    if (!diagnostic) {
+      return;
+    }
+
+    await commands.executeCommand(ExplorerController.ExplorerLaunchCommand);
+    this.explorerController.setActiveDiagnostic(diagnostic);
+  }
+
+  /**
+   * Returns the rule ids of the loaded results
+   */
+  private getRuleIds(): Set<string> {
+    if (!this.ruleIds) {
+      this.ruleIds = new Set<string>();
+      for (const diagnostic of this.explorerController.diagnosticCollection.getAllDiagnostics()) {
+        if (diagnostic.resultInfo.ruleId) {
+          this.ruleIds.add(diagnostic.resultInfo.ruleId);
+        }
+      }
+    }
+    return this.ruleIds;
+  }
+
+  /**
+   * Looks up the roots and the container mounts the file references of a line are resolved with
+   */
+  private static createFileLookup(): FileLookup {
+    const roots: string[] = [];
+    for (const folder of workspace.workspaceFolders || []) {
+      roots.push(Scan.getAppRoot(folder), folder.uri.fsPath);
+    }
+    return {
+      existing: new Map<string, boolean>(),
+      mountMappings: Scan.getMountMappings(),
+      roots,
+    };
+  }
+
+  /**
+   * Checks if the file exists, each path is only checked once per line
+   * @param file path of the file
+   * @param lookup lookup of the line
+   */
+  private static exists(file: string, lookup: FileLookup): boolean {
+    let exists: boolean | undefined = lookup.existing.get(file);
+    if (exists === undefined) {
+      exists = fs.existsSync(file);
+      lookup.existing.set(file, exists);
+    }
+    return exists;
+  }
+
+  /**
+   * Returns the local path of a file the scanner reported, undefined if it doesn't exist
+   * The paths in a container are mapped through the mounts recorded by the docker scans,
+   * the relative paths are resolved against the app roots
+   * @param file path the scanner reported
+   * @param lookup lookup of the line
+   */
+  private static resolveFile(
+    file: string,
+    lookup: FileLookup
+  ): string | undefined {
+    if (
+      path.isAbsolute(file) &&
+      ScanTerminalLinkProvider.exists(file, lookup)
+    ) {
+      return file;
+    }
+
+    for (const mapping of lookup.mountMappings) {
+      const from: string = mapping.from.replace(/\/+$/, "");
+      if (file.startsWith(`${from}/`)) {
+        const candidate: string = path.join(
+          mapping.to,
+          ...file.substring(from.length + 1).split("/")
+        );
+        if (ScanTerminalLinkProvider.exists(candidate, lookup)) {
+          return candidate;
+        }
+      }
+    }
+
+    if (path.isAbsolute(file)) {
+      return undefined;
+    }
+    for (const root of lookup.roots) {
+      const candidate: string = path.join(root, file);
+      if (ScanTerminalLinkProvider.exists(candidate, lookup)) {
+        return candidate;
+      }
+    }
+    return undefined;
+  }
+}
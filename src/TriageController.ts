@@ -0,0 +1,398 @@
+/**
+This file is part of Scan.
+
+Scan is free software: you can redistribute it and/or modify
+it under the terms of the GNU General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+Scan is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU General Public License for more details.
+
+You should have received a copy of the GNU General Public License
+along with Scan.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import * as fs from "fs";
+import * as path from "path";
+import * as sarif from "sarif";
+import {
+  commands,
+  ConfigurationChangeEvent,
+  Disposable,
+  QuickPickItem,
+  Uri,
+  window,
+  workspace,
+  WorkspaceConfiguration,
+} from "vscode";
+import { MessageType } from "./common/Enums";
+import {
+  ResultInfo,
+  Suppression,
+  TriageDecision,
+  TriageFile,
+  TriageStatus,
+  WebviewMessage,
+} from "./common/Interfaces";
+import { ExplorerController } from "./ExplorerController";
+import { BaselineFactory } from "./factories/BaselineFactory";
+import { ResultInfoFactory } from "./factories/ResultInfoFactory";
+import { SarifViewerVsCodeDiagnostic } from "./SarifViewerDiagnostic";
+import { Utilities } from "./Utilities";
+
+const ConfigTriageFile: string = "triageFile";
+
+/**
+ * Handles the triage decisions (false positive, accepted risk, fixed) made for the results
+ * The decisions are stored in a triage file in the workspace keyed by the fingerprint of the result,
+ * written back to the sarif logs as suppressions and applied to the results of the logs the scanner rewrites
+ */
+export class TriageController implements Disposable {
+  private disposables: Disposable[] = [];
+
+  public static readonly TriageCommand = "extension.shiftleft.Triage";
+
+  public static readonly StatusLabels: { [status in TriageStatus]: string } = {
+    acceptedRisk: "Accepted risk",
+    falsePositive: "False positive",
+    fixed: "Fixed",
+  };
+
+  private triageFile: TriageFile = { decisions: {}, version: 1 };
+
+  /**
+   * Writes of the suppressions to the sarif logs, queued so a decision doesn't overwrite the one made before it
+   */
+  private sarifWrites: Promise<void> = Promise.resolve();
+
+  public constructor(private readonly explorerController: ExplorerController) {
+    this.loadTriageFile();
+    this.disposables.push(
+      workspace.onDidChangeConfiguration(this.onSettingsChanged, this)
+    );
+    this.disposables.push(
+      commands.registerCommand(
+        TriageController.TriageCommand,
+        this.triage.bind(this)
+      )
+    );
+    this.disposables.push(
+      explorerController.onWebViewMessage(this.onWebviewMessage.bind(this))
+    );
+  }
+
+  /**
+   * For disposing on extension close
+   */
+  public dispose(): void {
+    Disposable.from(...this.disposables).dispose();
+    this.disposables = [];
+  }
+
+  /**
+   * Sets the suppression of the result if a triage decision was made for it
+   * @param resultInfo processed result info
+   * @param rawResult sarif result info from the sarif file
+   */
+  public applyDecision(resultInfo: ResultInfo, rawResult: sarif.Result): void {
+    const decision: TriageDecision | undefined = this.triageFile.decisions[
+      TriageController.getFingerprint(resultInfo, rawResult)
+    ];
+    if (decision) {
+      resultInfo.suppression = TriageController.toSuppression(decision);
+    }
+  }
+
+  /**
+   * Records the triage decision for the result of the diagnostic, asks the user for the missing details
+   * @param diagnostic diagnostic to triage, defaults to the active diagnostic
+   * @param status triage status to set, null clears the decision, asks the user if undefined
+   */
+  public async triage(
+    diagnostic?: SarifViewerVsCodeDiagnostic,
+    status?: TriageStatus | null
+  ): Promise<void> {
+    diagnostic = diagnostic || this.explorerController.activeDiagnostic;
+    if (!diagnostic) {
+      await window.showInformationMessage(
+        "Scan: Select a result in the results list to triage it."
+      );
+      return;
+    }
+
+    if (status === undefined) {
+      interface TriageQuickPickItem extends QuickPickItem {
+        status: TriageStatus | null;
+      }
+
+      const items: TriageQuickPickItem[] = Object.keys(
+        TriageController.StatusLabels
+      ).map((key) => ({
+        label: TriageController.StatusLabels[<TriageStatus>key],
+        status: <TriageStatus>key,
+      }));
+      if (
+        diagnostic.resultInfo.suppression &&
+        diagnostic.resultInfo.suppression.triage
+      ) {
+        items.push({ label: "Clear triage decision", status: null });
+      }
+
+      const selected:
+        | TriageQuickPickItem
+        | undefined = await window.showQuickPick(items, {
+        placeHolder: `Triage '${diagnostic.resultInfo.message.text}'`,
+      });
+      if (!selected) {
+        return;
+      }
+      status = selected.status;
+    }
+
+    const fingerprint: string = TriageController.getFingerprint(
+      diagnostic.resultInfo,
+      diagnostic.rawResult
+    );
+    let suppression: Suppression | undefined;
+    if (status === null) {
+      delete this.triageFile.decisions[fingerprint];
+    } else {
+      const justification: string | undefined = await window.showInputBox({
+        prompt: `Justification for marking the result as '${TriageController.StatusLabels[status]}'`,
+        ignoreFocusOut: true,
+      });
+      if (justification === undefined) {
+        return;
+      }
+
+      const decision: TriageDecision = {
+        file: diagnostic.resultInfo.assignedLocation?.fileName,
+        justification: justification || undefined,
+        ruleId: diagnostic.resultInfo.ruleId,
+        status,
+        updatedUtc: new Date().toISOString(),
+      };
+      this.triageFile.decisions[fingerprint] = decision;
+      suppression = TriageController.toSuppression(decision);
+    }
+
+    this.saveTriageFile();
+
+    // Without a triage decision the suppressions reported by the tool are in effect again
+    diagnostic.resultInfo.suppression =
+      suppression ||
+      ResultInfoFactory.parseSuppressions(
+        (diagnostic.rawResult.suppressions || []).filter(
+          (s) => !s.properties || s.properties.triage === undefined
+        )
+      );
+    this.explorerController.diagnosticCollection.refresh([diagnostic]);
+    await this.writeSuppression(diagnostic, suppression);
+  }
+
+  /**
+   * Handles the triage requests from the results list of the webview
+   * @param message message from the webview
+   */
+  private async onWebviewMessage(message: WebviewMessage): Promise<void> {
+    if (message.type !== MessageType.ResultsListTriageChanged) {
+      return;
+    }
+
+    const data: {
+      resultId: number;
+      runId: number;
+      status: TriageStatus | "";
+    } = JSON.parse(message.data);
+    const diagnostic:
+      | SarifViewerVsCodeDiagnostic
+      | undefined = this.explorerController.diagnosticCollection.getResultInfo(
+      data.resultId,
+      data.runId
+    );
+    if (diagnostic) {
+      await this.triage(diagnostic, data.status === "" ? null : data.status);
+    }
+  }
+
+  /**
+   * Reloads the triage file if its location changed in the settings
+   * @param event configuration change event
+   */
+  private onSettingsChanged(event: ConfigurationChangeEvent): void {
+    if (
+      event.affectsConfiguration(
+        `${Utilities.configSection}.${ConfigTriageFile}`
+      )
+    ) {
+      this.loadTriageFile();
+    }
+  }
+
+  /**
+   * Returns the full path of the triage file, undefined if there is no workspace folder open
+   */
+  private getTriageFilePath(): string | undefined {
+    if (!workspace.workspaceFolders || !workspace.workspaceFolders.length) {
+      return undefined;
+    }
+
+    const sarifConfig: WorkspaceConfiguration = workspace.getConfiguration(
+      Utilities.configSection
+    );
+    const triageFile: string = sarifConfig.get(
+      ConfigTriageFile,
+      ".sastscan-triage.json"
+    );
+    return path.isAbsolute(triageFile)
+      ? triageFile
+      : path.join(workspace.workspaceFolders[0].uri.fsPath, triageFile);
+  }
+
+  /**
+   * Loads the triage decisions from the triage file in the workspace
+   */
+  private loadTriageFile(): void {
+    this.triageFile = { decisions: {}, version: 1 };
+    const triageFilePath: string | undefined = this.getTriageFilePath();
+    if (!triageFilePath || !fs.existsSync(triageFilePath)) {
+      return;
+    }
+
+    try {
+      this.triageFile = JSON.parse(fs.readFileSync(triageFilePath, "utf8"));
+    } catch (error) {
+      // tslint:disable-next-line: no-floating-promises
+      window.showErrorMessage(
+        `Scan: Cannot read the triage decisions from '${triageFilePath}' because: ${error.message}`
+      );
+    }
+  }
+
+  /**
+   * Saves the triage decisions to the triage file in the workspace
+   */
+  private saveTriageFile(): void {
+    const triageFilePath: string | undefined = this.getTriageFilePath();
+    if (!triageFilePath) {
+      return;
+    }
+
+    try {
+      fs.writeFileSync(
+        triageFilePath,
+        JSON.stringify(this.triageFile, undefined, 2)
+      );
+    } catch (error) {
+      // tslint:disable-next-line: no-floating-promises
+      window.showErrorMessage(
+        `Scan: Cannot save the triage decisions to '${triageFilePath}' because: ${error.message}`
+      );
+    }
+  }
+
+  /**
+   * Writes the triage decision of the diagnostic back to its sarif log as a suppression
+   * Suppressions that were not added by the triage are kept as is
+   * @param diagnostic diagnostic that was triaged
+   * @param suppression suppression of the triage decision, undefined if the decision was cleared
+   */
+  private writeSuppression(
+    diagnostic: SarifViewerVsCodeDiagnostic,
+    suppression: Suppression | undefined
+  ): Promise<void> {
+    const suppressions: sarif.Suppression[] = (
+      diagnostic.rawResult.suppressions || []
+    ).filter((s) => !s.properties || s.properties.triage === undefined);
+    if (suppression) {
+      suppressions.push({
+        justification: suppression.justification,
+        kind: suppression.kind,
+        properties: { triage: suppression.triage },
+        state: suppression.status,
+      });
+    }
+    diagnostic.rawResult.suppressions = suppressions.length
+      ? suppressions
+      : undefined;
+
+    const resultInfo: ResultInfo = diagnostic.resultInfo;
+    const sarifFilePath: string = resultInfo.runInfo.sarifFileFullPath;
+    const rawSuppressions: sarif.Suppression[] | undefined =
+      diagnostic.rawResult.suppressions;
+    this.sarifWrites = this.sarifWrites.then(async () => {
+      try {
+        const sarifUri: Uri = Uri.file(sarifFilePath);
+        const log: sarif.Log = JSON.parse(
+          Buffer.from(await workspace.fs.readFile(sarifUri)).toString("utf8")
+        );
+        const run: sarif.Run | undefined =
+          log.runs[resultInfo.runInfo.runIndex];
+        if (!run || !run.results || !run.results[resultInfo.id]) {
+          return;
+        }
+
+        run.results[resultInfo.id].suppressions = rawSuppressions;
+        await workspace.fs.writeFile(
+          sarifUri,
+          Buffer.from(JSON.stringify(log, undefined, 2), "utf8")
+        );
+      } catch (error) {
+        // tslint:disable-next-line: no-floating-promises
+        window.showErrorMessage(
+          `Scan: Cannot write the suppression to '${sarifFilePath}' because: ${error.message}`
+        );
+      }
+    });
+    return this.sarifWrites;
+  }
+
+  /**
+   * Returns the fingerprint the triage decision of the result is stored under
+   * All of the fingerprints of the result are used, results without any are keyed by the rule id, the workspace
+   * relative path of the file and the snippet so the triage file matches on the machines it gets shared with
+   * @param resultInfo processed result info
+   * @param rawResult sarif result info from the sarif file
+   */
+  private static getFingerprint(
+    resultInfo: ResultInfo,
+    rawResult: sarif.Result
+  ): string {
+    const fingerprintKey:
+      | string
+      | undefined = BaselineFactory.getFingerprintKey(rawResult);
+    if (fingerprintKey) {
+      return fingerprintKey;
+    }
+
+    const uri: Uri | undefined =
+      resultInfo.assignedLocation && resultInfo.assignedLocation.uri;
+    return BaselineFactory.getFallbackKey(
+      rawResult,
+      resultInfo.ruleId,
+      uri
+        ? workspace.asRelativePath(uri, false).replace(/\\/g, "/")
+        : (resultInfo.assignedLocation &&
+            resultInfo.assignedLocation.fileName) ||
+            ""
+    );
+  }
+
+  /**
+   * Creates the suppression that represents the triage decision
+   * @param decision triage decision
+   */
+  private static toSuppression(decision: TriageDecision): Suppression {
+    const label: string = TriageController.StatusLabels[decision.status];
+    return {
+      justification: decision.justification
+        ? `${label}: ${decision.justification}`
+        : label,
+      kind: "external",
+      status: "accepted",
+      triage: decision.status,
+    };
+  }
+}
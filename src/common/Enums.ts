@@ -32,6 +32,11 @@ export enum MessageType {
   VerbosityChanged,
   PerformScan,
   ScanCompleted,
+  ApplyFix,
+  ResultsListTriageChanged,
+  ResultsListShowSuppressedToggled,
+  ScanProgress,
+  ResultsListViolationsOnlyToggled,
 }
 
 export const enum SeverityLevelOrder {
@@ -85,13 +85,29 @@ export interface Location {
 
 export interface RunInfo {
   additionalProperties?: { [key: string]: string };
+
+  /**
+   * Name of the application the scan that wrote the log ran for, only set for the scans run by the extension
+   */
+  appName?: string;
   automationCategory?: string;
   automationIdentifier?: string;
   cmdLine?: string;
   id: number;
+
+  /**
+   * Index of the run in the sarif file
+   */
+  runIndex: number;
   sarifFileFullPath: string;
   sarifFileName: string;
   startUtc?: string;
+
+  /**
+   * Elapsed time and resource limits of the scan that wrote the log, only set for the scans run by the extension
+   */
+  scanDuration?: string;
+  scanLimits?: string;
   timeDuration?: string;
   toolFileName?: string;
   toolFullName?: string;
@@ -115,6 +131,11 @@ export interface RunInfo {
   expandedBaseIds?: { [uriBaseId: string]: string };
 
   workingDir?: string;
+
+  /**
+   * Name of the workspace folder the sarif file is in
+   */
+  workspaceFolder?: string;
 }
 
 export interface ResultInfo {
@@ -140,6 +161,66 @@ export interface ResultInfo {
   runId: number;
   severityLevel: sarif.Result.level;
   stacks: Stacks;
+  suppression?: Suppression;
+}
+
+export type TriageStatus = "falsePositive" | "acceptedRisk" | "fixed";
+
+export interface Suppression {
+  justification?: string;
+  kind: sarif.Suppression.kind;
+
+  /**
+   * The result is only suppressed when the status is accepted, an absent state in the sarif is treated as accepted
+   */
+  status: sarif.Suppression.state;
+
+  /**
+   * Set when the suppression comes from a triage decision made in the extension
+   */
+  triage?: TriageStatus;
+}
+
+export interface TriageDecision {
+  file?: string;
+  justification?: string;
+  ruleId?: string;
+  status: TriageStatus;
+  updatedUtc: string;
+}
+
+export interface TriageFile {
+  /**
+   * Maps the fingerprint of a result to the triage decision made for it
+   */
+  decisions: { [fingerprint: string]: TriageDecision };
+  version: number;
+}
+
+export interface Baseline {
+  entries: BaselineEntry[];
+
+  /**
+   * Maps the match keys (fingerprints or the rule id + file + snippet fallback) to the baseline entries
+   */
+  index: Map<string, BaselineEntry[]>;
+  sarifFileFullPath: string;
+  sarifFileName: string;
+}
+
+export interface BaselineEntry {
+  file?: string;
+  key: string;
+  level?: sarif.Result.level;
+
+  /**
+   * Set when a result of the current runs matched this entry, unmatched entries are absent from the current runs
+   */
+  matched: boolean;
+  message?: string;
+  region?: sarif.Region;
+  ruleId?: string;
+  toolName: string;
 }
 
 export interface CodeFlow {
@@ -278,7 +359,13 @@ export interface ResultsListData {
   groupBy?: string;
   groups: ResultsListGroup[];
   resultCount: number;
+  showSuppressed: boolean;
   sortBy?: ResultsListSortBy;
+  suppressedCount: number;
+  // Number of results that violate the build break policy
+  violationCount: number;
+  // Flag to only show the results that violate the build break policy
+  violationsOnly: boolean;
 }
 
 export interface ResultsListGroup {
@@ -288,9 +375,11 @@ export interface ResultsListGroup {
 }
 
 export interface ResultsListRow {
+  appName: ResultsListStringValue;
   automationCat: ResultsListStringValue;
   automationId: ResultsListStringValue;
   baselineState: ResultsListBaselineValue;
+  justification: ResultsListStringValue;
   kind: ResultsListKindValue;
   logicalLocation: ResultsListStringValue;
   message: ResultsListStringValue;
@@ -303,13 +392,17 @@ export interface ResultsListRow {
   runId: ResultsListNumberValue;
   sarifFile: ResultsListStringValue;
   severityLevel: ResultsListSeverityValue;
+  suppression: ResultsListSuppressionValue;
   tool: ResultsListStringValue;
+  triage: ResultsListStringValue;
+  workspaceFolder: ResultsListStringValue;
   readonly [key: string]:
     | ResultsListValue
     | ResultsListStringValue
     | ResultsListNumberValue
     | ResultsListCustomOrderValue
-    | ResultsListPositionValue;
+    | ResultsListPositionValue
+    | ResultsListSuppressionValue;
 }
 
 export interface ResultsListValue {
@@ -321,6 +414,10 @@ export interface ResultsListStringValue extends ResultsListValue {
   value?: string;
 }
 
+export interface ResultsListSuppressionValue extends ResultsListStringValue {
+  suppressed: boolean;
+}
+
 export interface ResultsListNumberValue extends ResultsListValue {
   value?: number;
 }
@@ -396,3 +493,122 @@ export interface JsonMapping {
 export interface JsonMap {
   parse: (json: string) => JsonMapping;
 }
+
+export interface SarifParserRequest {
+  filePath: string;
+}
+
+export interface SarifParserResponse {
+  error?: string;
+  mapping?: JsonMapping;
+}
+
+/**
+ * Rewrites the paths in the sarif file that start with "from" (ex. the path the app was mounted at in a container)
+ * to start with "to" (the path on the host)
+ */
+export interface PathRewriteRule {
+  from: string;
+  to: string;
+}
+
+/**
+ * Credentials for the ShiftLeft NextGen cloud based scans, kept in the secret storage
+ */
+export interface ShiftLeftCredentials {
+  orgId: string;
+  apiToken: string;
+  accessToken: string;
+}
+
+/**
+ * Maximum number of findings per severity before the scan breaks the build
+ */
+export interface BuildBreakRule {
+  max_critical?: number;
+  max_high?: number;
+  max_medium?: number;
+}
+
+/**
+ * Thresholds of the build break policy of a scan mode, the results over a threshold fail the build
+ */
+export interface PolicyThresholds extends BuildBreakRule {
+  max_low?: number;
+  // Maximum number of findings per kind, the kind is matched against the name of the tool that reported the finding
+  max_kinds?: { [kind: string]: number };
+}
+
+/**
+ * Named set of scan settings from the profiles of the .sastscanrc file
+ */
+export interface ScanProfile {
+  description?: string;
+  type?: string | string[];
+  mode?: string;
+  exclude?: string[];
+  build_break_rules?: { [tool: string]: BuildBreakRule };
+}
+
+/**
+ * Contents of the .sastscanrc file, the scanner reads the settings besides the profiles itself
+ */
+export interface ScanRc {
+  // Thresholds keyed by the scan mode, or default for the modes without thresholds
+  build_break_policy?: { [mode: string]: PolicyThresholds };
+  profiles?: { [name: string]: ScanProfile };
+  [setting: string]: unknown;
+}
+
+/**
+ * Metadata of a scan archived in the scan history
+ */
+export interface ScanHistoryEntry {
+  appRoot: string;
+  // Git branch and commit of the app root at the time of the scan
+  branch?: string;
+  commit?: string;
+  // Number of results by level
+  counts: { error: number; warning: number; note: number };
+  duration?: string;
+  folder: string;
+  id: string;
+  incremental: boolean;
+  profile?: string;
+  // File names of the archived sarif reports
+  reports: string[];
+  // ISO time the scan completed at
+  time: string;
+}
+
+/**
+ * Progress of a scan parsed from the output of the scanner
+ */
+export interface ScanProgress {
+  // Number of files the tools reported as scanned, the highest count of any tool
+  filesScanned: number;
+  // Findings counted from the summary so far
+  findings: number;
+  // What the event is about
+  kind:
+    | "toolStarted"
+    | "toolFinished"
+    | "filesScanned"
+    | "findings"
+    | "summary";
+  // Tool the event is about, the last tool that started or the tool of the summary row
+  tool?: string;
+  toolsFinished: number;
+  toolsStarted: number;
+}
+
+/**
+ * Application detected from the build manifests in a directory, ex. one of the apps of a monorepo
+ */
+export interface DetectedApp {
+  appRoot: string;
+  // File names of the build manifests found in the app root
+  manifests: string[];
+  // Name from the manifest, or the path of the app root relative to the searched directory
+  name: string;
+}
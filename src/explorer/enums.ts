@@ -32,6 +32,13 @@ enum MessageType {
   SourceLinkClicked,
   TabChanged,
   VerbosityChanged,
+  PerformScan,
+  ScanCompleted,
+  ApplyFix,
+  ResultsListTriageChanged,
+  ResultsListShowSuppressedToggled,
+  ScanProgress,
+  ResultsListViolationsOnlyToggled,
 }
 
 enum tabNames {
@@ -70,6 +77,17 @@ enum BaselineStateTooltip {
   absent = "This result was detected in the baseline run but was not detected in the current run.",
 }
 
+enum SuppressionKindTooltip {
+  inSource = "The result is suppressed by a directive in the source code, ex. a '# nosec' comment.",
+  external = "The result is suppressed by information stored outside of the source code, ex. a suppressions file.",
+}
+
+enum SuppressionStatusTooltip {
+  accepted = "The suppression is in effect, the result is suppressed.",
+  underReview = "The suppression is pending review, the result is not suppressed yet.",
+  rejected = "The suppression was rejected, the result is not suppressed.",
+}
+
 enum KindTooltip {
   notApplicable = "The rule was not evaluated, because it does not apply to the analysis target.",
   pass = "The rule was evaluated, and no problem was found.",
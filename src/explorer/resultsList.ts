@@ -61,6 +61,10 @@ export class ResultsList {
       filterText: "",
       groups: [],
       resultCount: 0,
+      showSuppressed: false,
+      suppressedCount: 0,
+      violationCount: 0,
+      violationsOnly: false,
     };
 
     this.severityIconHTMLEles = new Map<sarif.Result.level, HTMLElement>();
@@ -281,6 +285,87 @@ export class ResultsList {
       );
       buttonBar.appendChild(groupByButton);
 
+      buttonBar.appendChild(
+        this.webview.createElement("span", {
+          className: "headercontentseperator",
+          text: "|",
+        })
+      );
+
+      // Triage button for the selected result
+      const triageButton: HTMLSelectElement = this.webview.createElement(
+        "select",
+        {
+          id: "resultslisttriage",
+          tooltip: "Triage the selected result",
+        }
+      );
+      triageButton.appendChild(
+        this.webview.createElement("option", {
+          attributes: { disabled: null, hidden: null, selected: null },
+          text: "Triage...",
+        })
+      );
+      for (const [status, text] of [
+        ["falsePositive", "False positive"],
+        ["acceptedRisk", "Accepted risk"],
+        ["fixed", "Fixed"],
+        ["", "Clear triage"],
+      ]) {
+        triageButton.appendChild(
+          this.webview.createElement("option", {
+            attributes: { value: status },
+            text,
+          })
+        );
+      }
+      triageButton.addEventListener("change", this.onTriageChanged.bind(this));
+      buttonBar.appendChild(triageButton);
+
+      // Show suppressed checkbox
+      const showSuppressedCheckbox: HTMLInputElement = this.webview.createElement(
+        "input",
+        {
+          attributes: { type: "checkbox" },
+          id: "resultslistshowsuppressed",
+        }
+      );
+      showSuppressedCheckbox.addEventListener(
+        "change",
+        this.onToggleShowSuppressed.bind(this)
+      );
+      buttonBar.appendChild(showSuppressedCheckbox);
+      buttonBar.appendChild(
+        this.webview.createElement("label", {
+          attributes: { for: "resultslistshowsuppressed" },
+          id: "resultslistshowsuppressedlabel",
+          text: "Show suppressed",
+        })
+      );
+
+      // Policy violations only checkbox, hidden while no result violates the build break policy
+      const violationsOnlyCheckbox: HTMLInputElement = this.webview.createElement(
+        "input",
+        {
+          attributes: { type: "checkbox" },
+          className: "hidden",
+          id: "resultslistviolationsonly",
+        }
+      );
+      violationsOnlyCheckbox.addEventListener(
+        "change",
+        this.onToggleViolationsOnly.bind(this)
+      );
+      buttonBar.appendChild(violationsOnlyCheckbox);
+      buttonBar.appendChild(
+        this.webview.createElement("label", {
+          attributes: { for: "resultslistviolationsonly" },
+          className: "hidden",
+          id: "resultslistviolationsonlylabel",
+          text: "Policy violations only",
+        })
+      );
+
       // Filter Input container
       const filterInputContainer: HTMLFormElement = this.webview.createElement(
         "form",
@@ -518,6 +603,9 @@ export class ResultsList {
       if (state === ToggleState.collapsed) {
         resultRow.classList.add("hidden");
       }
+      if (row.baselineState.value === "absent") {
+        resultRow.classList.add("absent");
+      }
 
       const diag: DiagnosticData | undefined = this.webview.diagnostic;
       if (
@@ -743,6 +831,56 @@ export class ResultsList {
     });
   }
 
+  /**
+   * Handler when a triage status is picked for the selected result, resets the selection to the placeholder
+   * @param event event for the change
+   */
+  private onTriageChanged(event: Event): void {
+    const selectElement: HTMLSelectElement = <HTMLSelectElement>(
+      event.srcElement
+    );
+    const option: HTMLOptionElement = <HTMLOptionElement>(
+      selectElement.children[selectElement.selectedIndex]
+    );
+    selectElement.selectedIndex = 0;
+
+    const diagnostic: DiagnosticData | undefined = this.webview.diagnostic;
+    if (!diagnostic) {
+      return;
+    }
+
+    this.webview.sendMessage({
+      data: JSON.stringify({
+        resultId: diagnostic.resultInfo.id,
+        runId: diagnostic.resultInfo.runId,
+        status: option.value,
+      }),
+      type: MessageType.ResultsListTriageChanged,
+    });
+  }
+
+  /**
+   * Handles toggling the visibility of the suppressed results
+   * @param event event for the toggle
+   */
+  private onToggleShowSuppressed(event: Event): void {
+    this.webview.sendMessage({
+      data: "",
+      type: MessageType.ResultsListShowSuppressedToggled,
+    });
+  }
+
+  /**
+   * Handles toggling the filter to the results that violate the build break policy
+   * @param event event for the toggle
+   */
+  private onToggleViolationsOnly(event: Event): void {
+    this.webview.sendMessage({
+      data: "",
+      type: MessageType.ResultsListViolationsOnlyToggled,
+    });
+  }
+
   /**
    * Handles toggling case match
    * @param event event for the toggle
@@ -1035,5 +1173,31 @@ export class ResultsList {
     } else {
       caseButton.classList.remove("active");
     }
+
+    const showSuppressedCheckbox: HTMLInputElement = <HTMLInputElement>(
+      document.getElementById("resultslistshowsuppressed")
+    );
+    showSuppressedCheckbox.checked = this.data.showSuppressed;
+
+    const showSuppressedLabel: HTMLElement = <HTMLElement>(
+      document.getElementById("resultslistshowsuppressedlabel")
+    );
+    showSuppressedLabel.textContent = `Show suppressed (${this.data.suppressedCount})`;
+
+    const violationsOnlyCheckbox: HTMLInputElement = <HTMLInputElement>(
+      document.getElementById("resultslistviolationsonly")
+    );
+    violationsOnlyCheckbox.checked = this.data.violationsOnly;
+    const violationsOnlyLabel: HTMLElement = <HTMLElement>(
+      document.getElementById("resultslistviolationsonlylabel")
+    );
+    violationsOnlyLabel.textContent = `Policy violations only (${this.data.violationCount})`;
+    for (const element of [violationsOnlyCheckbox, violationsOnlyLabel]) {
+      if (this.data.violationCount > 0) {
+        element.classList.remove("hidden");
+      } else {
+        element.classList.add("hidden");
+      }
+    }
   }
 }
@@ -31,8 +31,10 @@ import {
   Message,
   ResultInfo,
   RunInfo,
+  ScanProgress,
   Stack,
   Stacks,
+  Suppression,
   TreeNodeOptions,
   WebviewMessage,
   ThreadFlow,
@@ -149,6 +151,9 @@ export class ExplorerWebview {
       case MessageType.ScanCompleted:
         this.toggleScanRunning(false);
         break;
+      case MessageType.ScanProgress:
+        this.updateScanProgress(JSON.parse(message.data));
+        break;
     }
   }
 
@@ -776,6 +781,14 @@ export class ExplorerWebview {
         requestId: `${fixIndex}`,
       };
       const fixRootNode: HTMLLIElement = this.createNode(fixRootNodeOptions);
+      fixRootNode.appendChild(
+        this.createElement("button", {
+          attributes: { "data-fix": `${fixIndex}` },
+          className: "btn btn-sm fixapplybutton",
+          text: "Apply",
+          tooltip: "Preview and apply this fix",
+        })
+      );
       rootEle.appendChild(fixRootNode);
 
       if (!hasFiles) {
@@ -932,6 +945,28 @@ export class ExplorerWebview {
       );
     }
 
+    if (resultInfo.suppression) {
+      const suppression: TextAndTooltip = this.suppressionTextAndTooltip(
+        resultInfo.suppression
+      );
+      tableEle.appendChild(
+        this.createNameValueRow(
+          "Suppression:",
+          suppression.text,
+          suppression.tooltip
+        )
+      );
+
+      if (resultInfo.suppression.justification) {
+        tableEle.appendChild(
+          this.createNameValueRow(
+            "Justification:",
+            resultInfo.suppression.justification
+          )
+        );
+      }
+    }
+
     /*
     if (resultInfo.ruleHelpUri !== undefined) {
       const cellContents: HTMLAnchorElement = this.createElement("a", {
@@ -1025,6 +1060,18 @@ export class ExplorerWebview {
       );
     }
 
+    if (runInfo.workspaceFolder !== undefined) {
+      tableEle.appendChild(
+        this.createNameValueRow("Workspace folder:", runInfo.workspaceFolder)
+      );
+    }
+
+    if (runInfo.appName !== undefined) {
+      tableEle.appendChild(
+        this.createNameValueRow("Application:", runInfo.appName)
+      );
+    }
+
     if (runInfo.startUtc !== undefined) {
       tableEle.appendChild(
         this.createNameValueRow(
@@ -1040,6 +1087,18 @@ export class ExplorerWebview {
       );
     }
 
+    if (runInfo.scanDuration !== undefined) {
+      tableEle.appendChild(
+        this.createNameValueRow("Scan Duration:", runInfo.scanDuration)
+      );
+    }
+
+    if (runInfo.scanLimits !== undefined) {
+      tableEle.appendChild(
+        this.createNameValueRow("Scan Limits:", runInfo.scanLimits)
+      );
+    }
+
     if (runInfo.automationCategory !== undefined) {
       tableEle.appendChild(
         this.createNameValueRow(
@@ -1591,6 +1650,14 @@ export class ExplorerWebview {
    * @param event event fired when user clicked the fix tree
    */
   private onFixClicked(event: MouseEvent): void {
+    if (event.target instanceof HTMLButtonElement) {
+      const fixIndex: string | undefined = event.target.dataset.fix;
+      if (fixIndex !== undefined) {
+        this.sendMessage({ data: fixIndex, type: MessageType.ApplyFix });
+      }
+      return;
+    }
+
     const ele: HTMLSpanElement = getElementFromEvent(event, HTMLSpanElement);
     if (
       ele.classList.contains("treenodelocation") ||
@@ -1887,6 +1954,19 @@ export class ExplorerWebview {
     };
   }
 
+  /**
+   * Gets the text and tooltip(from the specs description) based on the result's suppression kind and status
+   * @param suppression the results suppression
+   */
+  public suppressionTextAndTooltip(suppression: Suppression): TextAndTooltip {
+    return {
+      text: `${suppression.kind} (${suppression.status})`,
+      tooltip: `${SuppressionKindTooltip[suppression.kind] || ""} ${
+        SuppressionStatusTooltip[suppression.status] || ""
+      }`.trim(),
+    };
+  }
+
   /**
    * Gets the text and tooltip(a reduced version of the specs description) based on the result's severity level
    * @param severity the results severity level
@@ -1967,6 +2047,64 @@ export class ExplorerWebview {
     }
   }
 
+  /**
+   * Updates the progress bar of the running scan, the bar is indeterminate until the first tool starts
+   * @param progress progress parsed from the scanner output
+   */
+  private updateScanProgress(progress: ScanProgress): void {
+    const progressBar: HTMLProgressElement = getDocumentElementById(
+      document,
+      "scanProgressBar",
+      HTMLProgressElement
+    );
+    const progressMessage: HTMLParagraphElement = getDocumentElementById(
+      document,
+      "scanProgressMessage",
+      HTMLParagraphElement
+    );
+    if (progress.toolsStarted) {
+      progressBar.value =
+        progress.kind === "summary" || progress.kind === "findings"
+          ? 100
+          : (progress.toolsFinished / (progress.toolsStarted + 1)) * 100;
+    }
+
+    const parts: string[] = [];
+    if (progress.kind === "summary" || progress.kind === "findings") {
+      parts.push("Loading the findings");
+    } else if (progress.tool) {
+      parts.push(`Running ${progress.tool}`);
+    }
+    parts.push(
+      `${progress.toolsFinished} of ${progress.toolsStarted} tools done`
+    );
+    if (progress.filesScanned) {
+      parts.push(`${progress.filesScanned} files scanned`);
+    }
+    if (progress.findings) {
+      parts.push(`${progress.findings} findings so far`);
+    }
+    progressMessage.textContent = parts.join(" · ");
+  }
+
+  /**
+   * Resets the progress bar of the scan to its indeterminate state
+   */
+  private resetScanProgress(): void {
+    const progressBar: HTMLProgressElement = getDocumentElementById(
+      document,
+      "scanProgressBar",
+      HTMLProgressElement
+    );
+    const progressMessage: HTMLParagraphElement = getDocumentElementById(
+      document,
+      "scanProgressMessage",
+      HTMLParagraphElement
+    );
+    progressBar.removeAttribute("value");
+    progressMessage.textContent = "";
+  }
+
   private toggleScanRunning(shouldShow: boolean) {
     const scanRunning: HTMLDivElement = getDocumentElementById(
       document,
@@ -1988,6 +2126,7 @@ export class ExplorerWebview {
       scanRunning.hidden = !shouldShow;
       if (shouldShow) {
         scanRunning.classList.remove(hiddenClass);
+        this.resetScanProgress();
       }
     }
     if (emptyResults) {
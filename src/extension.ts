@@ -15,15 +15,25 @@ along with Scan.  If not, see <https://www.gnu.org/licenses/>.
 */
 
 import { ExtensionContext, commands } from "vscode";
+import { BuildBreakPolicy } from "./BuildBreakPolicy";
 import { CodeFlowCodeLensProvider } from "./CodeFlowCodeLens";
 import { CodeFlowDecorations } from "./CodeFlowDecorations";
+import { Credentials } from "./Credentials";
+import { EnvironmentDoctor } from "./EnvironmentDoctor";
 import { ExplorerController } from "./ExplorerController";
 import { Scan } from "./Scan";
+import { ScanHistory } from "./ScanHistory";
+import { ScanOnSave } from "./ScanOnSave";
+import { ScanTerminalLinkProvider } from "./ScanTerminalLinkProvider";
+import { ScanTaskProvider } from "./ScanTaskProvider";
 import { LogReader } from "./LogReader";
 import { SVCodeActionProvider } from "./SVCodeActionProvider";
 import { Utilities } from "./Utilities";
 import { ResultsListController } from "./ResultsListController";
+import { ResultsStatusBar } from "./ResultsStatusBar";
 import { FileMapper } from "./FileMapper";
+import { FixController } from "./FixController";
+import { TriageController } from "./TriageController";
 
 /**
  * This method is called when the extension is activated.
@@ -43,7 +53,11 @@ export async function activate(context: ExtensionContext): Promise<void> {
   } catch (e) {}
 
   Utilities.initialize(context);
+  await Credentials.initialize(context);
   Scan.initialize(context);
+  context.subscriptions.push(new ScanTaskProvider());
+  context.subscriptions.push(new ScanOnSave());
+  context.subscriptions.push(new EnvironmentDoctor());
 
   const fileMapper: FileMapper = new FileMapper();
   context.subscriptions.push(fileMapper);
@@ -60,21 +74,48 @@ export async function activate(context: ExtensionContext): Promise<void> {
   context.subscriptions.push(codeActionProvider);
 
   context.subscriptions.push(
-    new ResultsListController(
-      explorerController,
-      codeActionProvider,
-      explorerController.diagnosticCollection
+    new ScanHistory(context, explorerController.diagnosticCollection)
+  );
+
+  context.subscriptions.push(new FixController(explorerController));
+
+  const triageController: TriageController = new TriageController(
+    explorerController
+  );
+  context.subscriptions.push(triageController);
+
+  const resultsListController: ResultsListController = new ResultsListController(
+    explorerController,
+    codeActionProvider,
+    explorerController.diagnosticCollection
+  );
+  context.subscriptions.push(resultsListController);
+
+  context.subscriptions.push(
+    new ResultsStatusBar(explorerController.diagnosticCollection)
+  );
+
+  context.subscriptions.push(
+    new BuildBreakPolicy(
+      explorerController.diagnosticCollection,
+      resultsListController
     )
   );
 
   context.subscriptions.push(new CodeFlowCodeLensProvider(explorerController));
 
+  context.subscriptions.push(new ScanTerminalLinkProvider(explorerController));
+
   context.subscriptions.push(
     new CodeFlowDecorations(explorerController, fileMapper)
   );
 
   // Read the initial set of open SARIF files
-  const reader: LogReader = new LogReader(explorerController, fileMapper);
+  const reader: LogReader = new LogReader(
+    explorerController,
+    fileMapper,
+    triageController
+  );
   context.subscriptions.push(reader);
 
   // Search the workspace for any sarif files.
@@ -0,0 +1,206 @@
+/**
+This file is part of Scan.
+
+Scan is free software: you can redistribute it and/or modify
+it under the terms of the GNU General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+Scan is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU General Public License for more details.
+
+You should have received a copy of the GNU General Public License
+along with Scan.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import * as path from "path";
+import * as sarif from "sarif";
+import { Baseline, BaselineEntry } from "../common/Interfaces";
+
+/**
+ * Namespace that has the functions for matching the results of a run against the results of a baseline log
+ * and calculating their baseline state
+ */
+export namespace BaselineFactory {
+  /**
+   * Creates a baseline from the results of all of the runs in the sarif log
+   * @param log The baseline sarif log
+   * @param sarifFileFullPath Path of the baseline sarif file
+   */
+  export function create(log: sarif.Log, sarifFileFullPath: string): Baseline {
+    const baseline: Baseline = {
+      entries: [],
+      index: new Map<string, BaselineEntry[]>(),
+      sarifFileFullPath,
+      sarifFileName: path.basename(sarifFileFullPath),
+    };
+
+    for (const run of log.runs || []) {
+      for (const result of run.results || []) {
+        const ruleId: string | undefined = getRuleId(result, run.tool);
+        const physicalLocation: sarif.PhysicalLocation | undefined =
+          result.locations &&
+          result.locations[0] &&
+          result.locations[0].physicalLocation;
+        const entry: BaselineEntry = {
+          file:
+            physicalLocation &&
+            physicalLocation.artifactLocation &&
+            physicalLocation.artifactLocation.uri,
+          key: getMatchKey(result, ruleId),
+          level: result.level,
+          matched: false,
+          message: result.message.text,
+          region: physicalLocation && physicalLocation.region,
+          ruleId,
+          toolName: run.tool.driver.name,
+        };
+        baseline.entries.push(entry);
+
+        const entries: BaselineEntry[] | undefined = baseline.index.get(
+          entry.key
+        );
+        if (entries) {
+          entries.push(entry);
+        } else {
+          baseline.index.set(entry.key, [entry]);
+        }
+      }
+    }
+
+    return baseline;
+  }
+
+  /**
+   * Calculates the baseline state of the result by finding an unmatched result in the baseline
+   * The results match on all of their fingerprints, the rule id + file + snippet is the fallback for results without any
+   * @param baseline Baseline to match the result against
+   * @param result The original sarif result
+   * @param ruleId The rule id of the result
+   */
+  export function compare(
+    baseline: Baseline,
+    result: sarif.Result,
+    ruleId?: string
+  ): sarif.Result.baselineState {
+    const entries: BaselineEntry[] | undefined = baseline.index.get(
+      getMatchKey(result, ruleId)
+    );
+    const entry: BaselineEntry | undefined =
+      entries && entries.find((e) => !e.matched);
+    if (entry) {
+      entry.matched = true;
+      return entry.level === result.level &&
+        entry.message === result.message.text
+        ? "unchanged"
+        : "updated";
+    }
+
+    return "new";
+  }
+
+  /**
+   * Clears the matched flags of the baseline entries so the results can be compared again
+   * @param baseline Baseline to reset
+   */
+  export function reset(baseline: Baseline): void {
+    for (const entry of baseline.entries) {
+      entry.matched = false;
+    }
+  }
+
+  /**
+   * Returns the key used to match a result with a result of the baseline
+   * @param result The original sarif result
+   * @param ruleId The rule id of the result
+   */
+  export function getMatchKey(result: sarif.Result, ruleId?: string): string {
+    const physicalLocation: sarif.PhysicalLocation | undefined =
+      result.locations &&
+      result.locations[0] &&
+      result.locations[0].physicalLocation;
+    return (
+      getFingerprintKey(result) ||
+      getFallbackKey(
+        result,
+        ruleId,
+        (physicalLocation &&
+          physicalLocation.artifactLocation &&
+          physicalLocation.artifactLocation.uri) ||
+          ""
+      )
+    );
+  }
+
+  /**
+   * Returns a key made of all of the fingerprints of the result, undefined if it has none
+   * Tools like slscan share partial fingerprints, ex. the hash of the file, between results,
+   * so a single fingerprint doesn't identify a result
+   * The fingerprints are stable across runs, the partial fingerprints are only used when a result has none
+   * @param result The original sarif result
+   */
+  export function getFingerprintKey(result: sarif.Result): string | undefined {
+    for (const [kind, fingerprints] of [
+      ["fingerprints", result.fingerprints],
+      ["partialFingerprints", result.partialFingerprints],
+    ] as [string, { [key: string]: string } | undefined][]) {
+      const names: string[] = Object.keys(fingerprints || {}).sort();
+      if (fingerprints && names.length) {
+        return `${kind}:${names
+          .map((name) => `${name}=${fingerprints[name]}`)
+          .join("|")}`;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Returns the rule id + file + snippet key of a result without fingerprints
+   * @param result The original sarif result
+   * @param ruleId The rule id of the result
+   * @param file File the result is reported in
+   */
+  export function getFallbackKey(
+    result: sarif.Result,
+    ruleId: string | undefined,
+    file: string
+  ): string {
+    const physicalLocation: sarif.PhysicalLocation | undefined =
+      result.locations &&
+      result.locations[0] &&
+      result.locations[0].physicalLocation;
+    const snippet: string =
+      (physicalLocation &&
+        physicalLocation.region &&
+        physicalLocation.region.snippet &&
+        physicalLocation.region.snippet.text) ||
+      "";
+    return `result:${ruleId}|${file}|${snippet.replace(/\s+/g, " ").trim()}`;
+  }
+
+  /**
+   * Returns the rule id of the result, looking it up from the tool's rules if the result only has the index
+   * @param result The original sarif result
+   * @param tool tool object that is used for the rules
+   */
+  function getRuleId(
+    result: sarif.Result,
+    tool: sarif.Tool
+  ): string | undefined {
+    const ruleIndex: number | undefined =
+      (result.rule && result.rule.index) || result.ruleIndex;
+    const ruleId: string | undefined =
+      (result.rule && result.rule.id) || result.ruleId;
+    if (ruleIndex !== undefined && tool.driver.rules) {
+      const rule: sarif.ReportingDescriptor | undefined =
+        tool.driver.rules[ruleIndex];
+      if (rule && rule.id) {
+        return rule.id;
+      }
+    }
+
+    return ruleId;
+  }
+}
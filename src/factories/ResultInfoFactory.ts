@@ -31,6 +31,8 @@ import {
   Stack,
   Stacks,
   Message,
+  Suppression,
+  TriageStatus,
   StackColumnWithContent,
   RunInfo,
 } from "../common/Interfaces";
@@ -178,6 +180,55 @@ export namespace ResultInfoFactory {
       severityLevel: severityLevel || "warning",
       message: Utilities.parseSarifMessage(resultMessage, allLocations),
       kind: result.kind || "fail",
+      suppression: ResultInfoFactory.parseSuppressions(result.suppressions),
+    };
+  }
+
+  /**
+   * Checks if the result is suppressed, results with a rejected or under review suppression are not
+   * @param resultInfo processed result info
+   */
+  export function isSuppressed(resultInfo: ResultInfo): boolean {
+    return (
+      resultInfo.suppression !== undefined &&
+      resultInfo.suppression.status === "accepted"
+    );
+  }
+
+  /**
+   * Parses the suppressions of the result into the suppression that is in effect
+   * A rejected suppression takes precedence over one under review, which takes precedence over an accepted one
+   * @param sarifSuppressions sarif suppressions of the result
+   */
+  export function parseSuppressions(
+    sarifSuppressions: sarif.Suppression[] | undefined
+  ): Suppression | undefined {
+    if (!sarifSuppressions || sarifSuppressions.length === 0) {
+      return undefined;
+    }
+
+    const states: sarif.Suppression.state[] = [
+      "rejected",
+      "underReview",
+      "accepted",
+    ];
+    let sarifSuppression: sarif.Suppression = sarifSuppressions[0];
+    for (const suppression of sarifSuppressions) {
+      if (
+        states.indexOf(suppression.state || "accepted") <
+        states.indexOf(sarifSuppression.state || "accepted")
+      ) {
+        sarifSuppression = suppression;
+      }
+    }
+
+    return {
+      justification: sarifSuppression.justification,
+      kind: sarifSuppression.kind,
+      status: sarifSuppression.state || "accepted",
+      triage:
+        sarifSuppression.properties &&
+        <TriageStatus | undefined>sarifSuppression.properties.triage,
     };
   }
 
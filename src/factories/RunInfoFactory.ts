@@ -16,6 +16,7 @@ along with Scan.  If not, see <https://www.gnu.org/licenses/>.
 
 import * as path from "path";
 import * as sarif from "sarif";
+import { Uri, workspace, WorkspaceFolder } from "vscode";
 import { RunInfo } from "../common/Interfaces";
 import { Utilities } from "../Utilities";
 
@@ -28,8 +29,13 @@ export namespace RunInfoFactory {
    * Processes the run passed in and creates a new RunInfo object with the information processed
    * @param run SARIF run object to process
    * @param sarifFileName path and file name of the sarif file this run is in
+   * @param runIndex index of the run in the sarif file
    */
-  export function create(run: sarif.Run, sarifFileName: string): RunInfo {
+  export function create(
+    run: sarif.Run,
+    sarifFileName: string,
+    runIndex: number
+  ): RunInfo {
     const tool: sarif.ToolComponent = run.tool.driver;
 
     let toolFullName: string = tool.fullName || tool.name;
@@ -77,8 +83,13 @@ export namespace RunInfoFactory {
       }
     }
 
+    const workspaceFolder:
+      | WorkspaceFolder
+      | undefined = workspace.getWorkspaceFolder(Uri.file(sarifFileName));
+
     return {
       id: 0,
+      runIndex,
       toolName: tool.name,
       toolFullName,
       toolFileName,
@@ -92,6 +103,7 @@ export namespace RunInfoFactory {
       automationCategory,
       automationIdentifier,
       startUtc,
+      workspaceFolder: workspaceFolder && workspaceFolder.name,
     };
   }
 }
@@ -0,0 +1,59 @@
+/**
+This file is part of Scan.
+
+Scan is free software: you can redistribute it and/or modify
+it under the terms of the GNU General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+Scan is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU General Public License for more details.
+
+You should have received a copy of the GNU General Public License
+along with Scan.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import { ContainerScanRunner } from "../runners/ContainerScanRunner";
+import { CustomScanRunner } from "../runners/CustomScanRunner";
+import { LocalScanRunner } from "../runners/LocalScanRunner";
+import { ScanRunner, SpawnFunction } from "../runners/ScanRunner";
+
+/**
+ * Creates the scan runners
+ */
+export namespace ScanRunnerFactory {
+  export const Auto: string = "auto";
+  export const Local: string = "local";
+  export const Custom: string = "custom";
+  export const Docker: string = "docker";
+
+  /**
+   * Container runtimes the scans can run with, the value of the runner setting is run as the cli so no other is accepted
+   */
+  export const ContainerRuntimes: string[] = [Docker, "podman", "nerdctl"];
+
+  /**
+   * Creates the runner of the runner setting
+   * @param name value of the runner setting, auto is resolved by the caller and an unknown runner runs with docker
+   * @param customCommand command line template of the custom runner
+   * @param spawnProcess starts the processes, child_process.spawn if not passed
+   */
+  export function create(
+    name: string,
+    customCommand: string,
+    spawnProcess?: SpawnFunction
+  ): ScanRunner {
+    switch (name) {
+      case Local:
+        return new LocalScanRunner(spawnProcess);
+      case Custom:
+        return new CustomScanRunner(customCommand, spawnProcess);
+      default:
+        return new ContainerScanRunner(
+          ContainerRuntimes.indexOf(name) > -1 ? name : Docker,
+          spawnProcess
+        );
+    }
+  }
+}
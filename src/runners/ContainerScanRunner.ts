@@ -0,0 +1,139 @@
+/**
+This file is part of Scan.
+
+Scan is free software: you can redistribute it and/or modify
+it under the terms of the GNU General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+Scan is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU General Public License for more details.
+
+You should have received a copy of the GNU General Public License
+along with Scan.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import * as path from "path";
+import { ChildProcess } from "child_process";
+import { createHash } from "crypto";
+import { ProcessScanRunner } from "./ProcessScanRunner";
+import { ScanCommand, ScanSpec, SpawnFunction } from "./ScanRunner";
+
+/**
+ * Runs the scans in a container with a docker compatible cli, ex. docker, podman or nerdctl
+ */
+export class ContainerScanRunner extends ProcessScanRunner {
+  /**
+   * Docker cli, Docker Desktop doesn't put it on the PATH of the extension host on macOS
+   */
+  public static readonly dockerCmd: string = ProcessScanRunner.isMac
+    ? "/Applications/Docker.app/Contents/Resources/bin/docker"
+    : "docker";
+
+  // Path the app roots get mounted under in the scan container, each at a directory of its own
+  // so the results of an app don't get mapped onto the files of another app
+  private static readonly containerAppsPath = "/scans";
+  // Path the reports directory gets mounted at when the reports are written outside the app root
+  private static readonly containerReportsPath = "/reports";
+
+  // Number of commands built, keeps the names of the containers of the parallel app scans apart
+  private static commandCount: number = 0;
+
+  /**
+   * @param name name of the runner, also the cli of the container runtime except for docker
+   * @param spawnProcess starts the processes
+   */
+  public constructor(
+    public readonly name: string,
+    spawnProcess?: SpawnFunction
+  ) {
+    super(spawnProcess);
+  }
+
+  /**
+   * Returns the cli of the container runtime
+   */
+  public get runtimeCmd(): string {
+    return this.name === "docker" ? ContainerScanRunner.dockerCmd : this.name;
+  }
+
+  public getCommand(spec: ScanSpec): ScanCommand {
+    ContainerScanRunner.commandCount++;
+    const containerName: string = `shiftleft-scan-${Date.now()}-${
+      ContainerScanRunner.commandCount
+    }`;
+    const cmdArgs: string[] = ["run", "--rm", "--name", containerName];
+    // Only the names are passed to the runtime, it reads the values from the environment so the secrets stay out of argv
+    for (const key of Object.keys(spec.env)) {
+      cmdArgs.push("-e", key);
+    }
+    if (spec.limits && spec.limits.memory) {
+      cmdArgs.push("--memory", spec.limits.memory);
+    }
+    if (spec.limits && spec.limits.cpus) {
+      cmdArgs.push("--cpus", `${spec.limits.cpus}`);
+    }
+    const containerAppPath: string = ContainerScanRunner.getContainerAppPath(
+      spec
+    );
+    cmdArgs.push("-v", `${spec.appRoot}:${containerAppPath}`);
+    if (spec.reportsDir) {
+      cmdArgs.push(
+        "-v",
+        `${spec.reportsDir}:${ContainerScanRunner.containerReportsPath}`
+      );
+    }
+    // A file is scanned at its path in the mounted app root
+    cmdArgs.push(
+      spec.image,
+      "scan",
+      "--src",
+      spec.file
+        ? path.posix.join(
+            containerAppPath,
+            ...path.relative(spec.appRoot, spec.file).split(path.sep)
+          )
+        : containerAppPath
+    );
+    if (spec.reportsDir) {
+      cmdArgs.push("--out_dir", ContainerScanRunner.containerReportsPath);
+    }
+    cmdArgs.push(...ProcessScanRunner.getTypeArgs(spec), "--mode", spec.mode);
+    return {
+      appRoot: spec.appRoot,
+      baseCmd: this.runtimeCmd,
+      cmdArgs,
+      containerName,
+      env: spec.env,
+      image: spec.image,
+      mountMapping: {
+        from: containerAppPath,
+        to: spec.workspace,
+      },
+      runner: this,
+      // The paths are passed as they are, without a shell to split or expand them
+      shell: false,
+    };
+  }
+
+  public stop(proc: ChildProcess, command: ScanCommand): void {
+    // Killing the cli doesn't always stop the container, so it's stopped by name
+    if (command.containerName) {
+      this.spawnProcess(this.runtimeCmd, ["stop", command.containerName], {});
+    }
+    super.stop(proc, command);
+  }
+
+  /**
+   * Returns the container path the app root gets mounted at, derived from the directory the results are reported under
+   * so the scans of an app, incremental ones included, always use the same path
+   * @param spec what to scan
+   */
+  private static getContainerAppPath(spec: ScanSpec): string {
+    return path.posix.join(
+      ContainerScanRunner.containerAppsPath,
+      createHash("sha1").update(spec.workspace).digest("hex").substring(0, 12)
+    );
+  }
+}
@@ -0,0 +1,68 @@
+/**
+This file is part of Scan.
+
+Scan is free software: you can redistribute it and/or modify
+it under the terms of the GNU General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+Scan is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU General Public License for more details.
+
+You should have received a copy of the GNU General Public License
+along with Scan.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import * as path from "path";
+import { ProcessScanRunner } from "./ProcessScanRunner";
+import { ScanCommand, ScanSpec, SpawnFunction } from "./ScanRunner";
+
+/**
+ * Runs the scans with a command line template from the settings
+ * The ${src}, ${mode}, ${image}, ${env} and ${reports} placeholders are replaced with the directory or file to scan,
+ * the scan mode, the container image, the -e options that pass the scanner variables to a container and the
+ * directory the reports have to be written to
+ */
+export class CustomScanRunner extends ProcessScanRunner {
+  public readonly name: string = "custom";
+
+  /**
+   * @param template command line template
+   * @param spawnProcess starts the processes
+   */
+  public constructor(
+    private readonly template: string,
+    spawnProcess?: SpawnFunction
+  ) {
+    super(spawnProcess);
+  }
+
+  public getCommand(spec: ScanSpec): ScanCommand {
+    const placeholders: { [name: string]: string } = {
+      env: Object.keys(spec.env)
+        .map((key) => `-e ${key}`)
+        .join(" "),
+      image: spec.image,
+      mode: spec.mode,
+      reports: ProcessScanRunner.quote(
+        spec.reportsDir || path.join(spec.appRoot, "reports")
+      ),
+      src: ProcessScanRunner.quote(spec.file || spec.appRoot),
+    };
+    // The template is a whole command line, so it runs in the shell as is
+    const baseCmd: string = this.template.replace(
+      /\$\{(\w+)\}/g,
+      (placeholder: string, name: string) =>
+        placeholders.hasOwnProperty(name) ? placeholders[name] : placeholder
+    );
+    return {
+      appRoot: spec.appRoot,
+      baseCmd,
+      cmdArgs: [],
+      env: spec.env,
+      runner: this,
+      shell: ProcessScanRunner.getShell(),
+    };
+  }
+}
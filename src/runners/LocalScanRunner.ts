@@ -0,0 +1,44 @@
+/**
+This file is part of Scan.
+
+Scan is free software: you can redistribute it and/or modify
+it under the terms of the GNU General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+Scan is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU General Public License for more details.
+
+You should have received a copy of the GNU General Public License
+along with Scan.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import { ProcessScanRunner } from "./ProcessScanRunner";
+import { ScanCommand, ScanSpec } from "./ScanRunner";
+
+/**
+ * Runs the scans with the slscan cli installed on the machine
+ */
+export class LocalScanRunner extends ProcessScanRunner {
+  public readonly name: string = "local";
+
+  public getCommand(spec: ScanSpec): ScanCommand {
+    return {
+      appRoot: spec.appRoot,
+      baseCmd: "scan",
+      cmdArgs: [
+        "--src",
+        spec.file || spec.appRoot,
+        ...(spec.reportsDir ? ["--out_dir", spec.reportsDir] : []),
+        ...ProcessScanRunner.getTypeArgs(spec),
+        "--mode",
+        spec.mode,
+      ],
+      env: spec.env,
+      runner: this,
+      // The paths are passed as they are, without a shell to split or expand them
+      shell: false,
+    };
+  }
+}
@@ -0,0 +1,84 @@
+/**
+This file is part of Scan.
+
+Scan is free software: you can redistribute it and/or modify
+it under the terms of the GNU General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+Scan is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU General Public License for more details.
+
+You should have received a copy of the GNU General Public License
+along with Scan.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import { ChildProcess, spawn } from "child_process";
+import { platform } from "os";
+import { ScanCommand, ScanRunner, ScanSpec, SpawnFunction } from "./ScanRunner";
+
+/**
+ * Runs the scan command as a process in its own process group, so that the whole tree can be stopped
+ */
+export abstract class ProcessScanRunner implements ScanRunner {
+  protected static readonly isWin: boolean = platform().indexOf("win32") > -1;
+  protected static readonly isMac: boolean = platform().indexOf("darwin") > -1;
+
+  public abstract readonly name: string;
+
+  public constructor(protected readonly spawnProcess: SpawnFunction = spawn) {}
+
+  public abstract getCommand(spec: ScanSpec): ScanCommand;
+
+  public start(command: ScanCommand): ChildProcess {
+    return this.spawnProcess(command.baseCmd, command.cmdArgs, {
+      detached: !ProcessScanRunner.isWin,
+      // The scanner variables are added to the environment of the extension host, the runtimes need its PATH,
+      // HOME, DOCKER_HOST, XDG_RUNTIME_DIR and SystemRoot
+      env: { ...process.env, ...command.env },
+      shell: command.shell,
+    });
+  }
+
+  public stop(proc: ChildProcess, command: ScanCommand): void {
+    if (ProcessScanRunner.isWin) {
+      this.spawnProcess("taskkill", ["/pid", `${proc.pid}`, "/T", "/F"], {});
+      return;
+    }
+    try {
+      // Negative pid signals the whole process group
+      process.kill(-proc.pid, "SIGTERM");
+    } catch (e) {
+      proc.kill("SIGTERM");
+    }
+  }
+
+  /**
+   * Returns the shell the command is run with, the login shell on macOS so the PATH of the user applies
+   */
+  protected static getShell(): string | boolean {
+    return ProcessScanRunner.isMac ? process.env["SHELL"] || "/bin/bash" : true;
+  }
+
+  /**
+   * Quotes an argument of a shell command line, so the shell takes it as one word and doesn't expand it
+   * The paths on Windows can't contain double quotes, elsewhere a single quote ends the quoting and gets escaped
+   * @param arg argument to quote
+   */
+  protected static quote(arg: string): string {
+    return ProcessScanRunner.isWin
+      ? `"${arg}"`
+      : `'${arg.replace(/'/g, "'\\''")}'`;
+  }
+
+  /**
+   * Returns the scan type arguments of the spec
+   * @param spec what to scan
+   */
+  protected static getTypeArgs(spec: ScanSpec): string[] {
+    return spec.types && spec.types.length
+      ? ["--type", spec.types.join(",")]
+      : [];
+  }
+}
@@ -0,0 +1,110 @@
+/**
+This file is part of Scan.
+
+Scan is free software: you can redistribute it and/or modify
+it under the terms of the GNU General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+Scan is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU General Public License for more details.
+
+You should have received a copy of the GNU General Public License
+along with Scan.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import { ChildProcess, SpawnOptions } from "child_process";
+import { PathRewriteRule } from "../common/Interfaces";
+
+// This module doesn't depend on the vscode module
+
+/**
+ * Starts a process, child_process.spawn unless another function is passed in
+ */
+export type SpawnFunction = (
+  command: string,
+  args: string[],
+  options: SpawnOptions
+) => ChildProcess;
+
+/**
+ * Resources a scan container may use, unlimited if not set
+ */
+export interface ScanLimits {
+  // Number of CPUs, ex. 1.5
+  cpus?: number;
+  // Memory with a unit, ex. 4g
+  memory?: string;
+}
+
+/**
+ * What to scan, independent of the runner the scan runs with
+ */
+export interface ScanSpec {
+  // Directory to scan
+  appRoot: string;
+  // Variables the scanner reads, ex. WORKSPACE and the ShiftLeft NextGen credentials
+  env: { [key: string]: string };
+  // File of the app root to scan on its own, the whole app root is scanned if not set
+  file?: string;
+  // Container image, only used by the container runners
+  image: string;
+  // Resource limits, only applied by the container runners
+  limits?: ScanLimits;
+  mode: string;
+  // Directory the reports are written to, the reports directory of the app root if not set
+  reportsDir?: string;
+  // Scan types, the scanner detects them if not set
+  types?: string[];
+  // Directory the results are reported under, differs from the app root when a copy of it is scanned
+  workspace: string;
+}
+
+/**
+ * Command line of a scan along with the details needed to run it and load its results
+ */
+export interface ScanCommand {
+  appRoot: string;
+  baseCmd: string;
+  cmdArgs: string[];
+  containerName?: string;
+  env: { [key: string]: string };
+  // Container image, only set for container based scans
+  image?: string;
+  // Container path the app root is mounted at, only set for container based scans
+  mountMapping?: PathRewriteRule;
+  // Runner that built the command, it starts and stops the scan process
+  runner: ScanRunner;
+  // Shell the command line is run with, false when the arguments are passed to the process as they are
+  shell: string | boolean;
+}
+
+/**
+ * Runs the scans in a particular way, ex. with the local slscan or in a docker container
+ */
+export interface ScanRunner {
+  /**
+   * Name of the runner, the value of the runner setting
+   */
+  readonly name: string;
+
+  /**
+   * Builds the command line that scans the spec
+   * @param spec what to scan
+   */
+  getCommand(spec: ScanSpec): ScanCommand;
+
+  /**
+   * Starts the scan process
+   * @param command command built by this runner
+   */
+  start(command: ScanCommand): ChildProcess;
+
+  /**
+   * Stops the scan process along with the processes and containers it started
+   * @param proc the scan process
+   * @param command command the process was started with
+   */
+  stop(proc: ChildProcess, command: ScanCommand): void;
+}
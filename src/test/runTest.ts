@@ -0,0 +1,36 @@
+/**
+This file is part of Scan.
+
+Scan is free software: you can redistribute it and/or modify
+it under the terms of the GNU General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+Scan is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU General Public License for more details.
+
+You should have received a copy of the GNU General Public License
+along with Scan.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import * as path from "path";
+import { runTests } from "vscode-test";
+
+/**
+ * Downloads vscode and runs the test suite in it with the extension loaded
+ */
+async function main(): Promise<void> {
+  try {
+    await runTests({
+      extensionDevelopmentPath: path.resolve(__dirname, "../../"),
+      extensionTestsPath: path.resolve(__dirname, "./suite/index"),
+    });
+  } catch (err) {
+    console.error("Failed to run the tests");
+    process.exit(1);
+  }
+}
+
+// tslint:disable-next-line: no-floating-promises
+main();
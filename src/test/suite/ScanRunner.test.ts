@@ -0,0 +1,201 @@
+/**
+This file is part of Scan.
+
+Scan is free software: you can redistribute it and/or modify
+it under the terms of the GNU General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+Scan is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU General Public License for more details.
+
+You should have received a copy of the GNU General Public License
+along with Scan.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import * as assert from "assert";
+import * as path from "path";
+import { ChildProcess, SpawnOptions } from "child_process";
+import { EventEmitter } from "events";
+import { ScanRunnerFactory } from "../../factories/ScanRunnerFactory";
+import { ContainerScanRunner } from "../../runners/ContainerScanRunner";
+import {
+  ScanCommand,
+  ScanRunner,
+  ScanSpec,
+  SpawnFunction,
+} from "../../runners/ScanRunner";
+
+/**
+ * Process started by the fake spawn function, nothing gets run
+ */
+interface SpawnedProcess {
+  command: string;
+  args: string[];
+  options: SpawnOptions;
+}
+
+/**
+ * Returns a spawn function that records the processes instead of starting them
+ * @param spawned list the processes are added to
+ */
+function createFakeSpawn(spawned: SpawnedProcess[]): SpawnFunction {
+  return (command: string, args: string[], options: SpawnOptions) => {
+    spawned.push({ args, command, options });
+    // Without a pid the process group can't be signalled, so stop falls back to kill
+    return (Object.assign(new EventEmitter(), {
+      kill: (): boolean => true,
+    }) as unknown) as ChildProcess;
+  };
+}
+
+/**
+ * Returns the spec of a scan of the app root
+ * @param appRoot directory to scan
+ */
+function createSpec(appRoot: string): ScanSpec {
+  return {
+    appRoot,
+    env: { SHIFTLEFT_ACCESS_TOKEN: "secret", WORKSPACE: appRoot },
+    image: "shiftleft/sast-scan",
+    mode: "ide",
+    workspace: appRoot,
+  };
+}
+
+suite("Scan runners", () => {
+  const appRoot: string = path.resolve("/projects/app");
+
+  test("Creates the runners of the container runtimes", () => {
+    for (const name of ScanRunnerFactory.ContainerRuntimes) {
+      const runner: ScanRunner = ScanRunnerFactory.create(name, "");
+      assert.ok(runner instanceof ContainerScanRunner);
+      assert.strictEqual(runner.name, name);
+    }
+  });
+
+  test("Runs an unknown runner with docker instead of running the setting as a command", () => {
+    const runner: ScanRunner = ScanRunnerFactory.create("touch /tmp/x;", "");
+    assert.ok(runner instanceof ContainerScanRunner);
+    assert.strictEqual(runner.name, ScanRunnerFactory.Docker);
+  });
+
+  test("Starts the local scan with the scanner variables added to the environment", () => {
+    const spawned: SpawnedProcess[] = [];
+    const runner: ScanRunner = ScanRunnerFactory.create(
+      ScanRunnerFactory.Local,
+      "",
+      createFakeSpawn(spawned)
+    );
+    const command: ScanCommand = runner.getCommand(createSpec(appRoot));
+    runner.start(command);
+
+    assert.strictEqual(spawned.length, 1);
+    assert.strictEqual(spawned[0].command, "scan");
+    assert.deepStrictEqual(spawned[0].args, [
+      "--src",
+      appRoot,
+      "--mode",
+      "ide",
+    ]);
+    const env: NodeJS.ProcessEnv = spawned[0].options.env || {};
+    assert.strictEqual(env["SHIFTLEFT_ACCESS_TOKEN"], "secret");
+    assert.strictEqual(env["PATH"], process.env["PATH"]);
+  });
+
+  test("Passes only the names of the scanner variables to the container", () => {
+    const spawned: SpawnedProcess[] = [];
+    const runner: ScanRunner = ScanRunnerFactory.create(
+      "podman",
+      "",
+      createFakeSpawn(spawned)
+    );
+    const command: ScanCommand = runner.getCommand(createSpec(appRoot));
+    runner.start(command);
+
+    assert.strictEqual(spawned[0].command, "podman");
+    assert.ok(spawned[0].args.indexOf("SHIFTLEFT_ACCESS_TOKEN") > -1);
+    assert.ok(!spawned[0].args.some((arg) => arg.indexOf("secret") > -1));
+    assert.ok(command.mountMapping);
+    assert.strictEqual(
+      command.mountMapping && command.mountMapping.to,
+      appRoot
+    );
+  });
+
+  test("Gives the containers of the parallel scans different names", () => {
+    const runner: ScanRunner = ScanRunnerFactory.create("docker", "");
+    const first: ScanCommand = runner.getCommand(createSpec(appRoot));
+    const second: ScanCommand = runner.getCommand(createSpec(appRoot));
+    assert.notStrictEqual(first.containerName, second.containerName);
+  });
+
+  test("Stops the container by name", () => {
+    const spawned: SpawnedProcess[] = [];
+    const runner: ScanRunner = ScanRunnerFactory.create(
+      "nerdctl",
+      "",
+      createFakeSpawn(spawned)
+    );
+    const command: ScanCommand = runner.getCommand(createSpec(appRoot));
+    const proc: ChildProcess = runner.start(command);
+    runner.stop(proc, command);
+
+    const stop: SpawnedProcess | undefined = spawned.find(
+      (item) => item.args[0] === "stop"
+    );
+    assert.ok(stop);
+    assert.strictEqual(stop && stop.command, "nerdctl");
+    assert.deepStrictEqual(stop && stop.args, ["stop", command.containerName]);
+  });
+
+  test("Replaces the placeholders of the custom runner", () => {
+    const runner: ScanRunner = ScanRunnerFactory.create(
+      ScanRunnerFactory.Custom,
+      "scan --src ${src} --mode ${mode} ${unknown}"
+    );
+    const command: ScanCommand = runner.getCommand(createSpec(appRoot));
+    assert.strictEqual(
+      command.baseCmd,
+      process.platform === "win32"
+        ? `scan --src "${appRoot}" --mode ide \${unknown}`
+        : `scan --src '${appRoot}' --mode ide \${unknown}`
+    );
+  });
+
+  test("Passes the paths to scan as they are, without a shell", () => {
+    const file: string = path.join(appRoot, "it's a$(touch x)`id`.py");
+    for (const name of [ScanRunnerFactory.Local, ScanRunnerFactory.Docker]) {
+      const spawned: SpawnedProcess[] = [];
+      const runner: ScanRunner = ScanRunnerFactory.create(
+        name,
+        "",
+        createFakeSpawn(spawned)
+      );
+      runner.start(runner.getCommand({ ...createSpec(appRoot), file }));
+
+      assert.ok(!spawned[0].options.shell);
+      const src: string = spawned[0].args[spawned[0].args.indexOf("--src") + 1];
+      assert.ok(src.endsWith("it's a$(touch x)`id`.py"));
+    }
+  });
+
+  test("Quotes the paths of the custom runner command line", () => {
+    if (process.platform === "win32") {
+      return;
+    }
+    const runner: ScanRunner = ScanRunnerFactory.create(
+      ScanRunnerFactory.Custom,
+      "scan --src ${src}"
+    );
+    const command: ScanCommand = runner.getCommand({
+      ...createSpec(appRoot),
+      file: "/projects/app/it's a$(touch x).py",
+    });
+    assert.strictEqual(
+      command.baseCmd,
+      "scan --src '/projects/app/it'\\''s a$(touch x).py'"
+    );
+  });
+});
@@ -0,0 +1,51 @@
+/**
+This file is part of Scan.
+
+Scan is free software: you can redistribute it and/or modify
+it under the terms of the GNU General Public License as published by
+the Free Software Foundation, either version 3 of the License, or
+(at your option) any later version.
+Scan is distributed in the hope that it will be useful,
+but WITHOUT ANY WARRANTY; without even the implied warranty of
+MERCHANTABILITY or FITNESS FOR A PARTICULAR PURPOSE.  See the
+GNU General Public License for more details.
+
+You should have received a copy of the GNU General Public License
+along with Scan.  If not, see <https://www.gnu.org/licenses/>.
+*/
+
+import * as path from "path";
+import glob from "glob";
+import Mocha from "mocha";
+
+/**
+ * Runs the test files of the suite, called by vscode once the extension is loaded
+ */
+export function run(): Promise<void> {
+  const mocha: Mocha = new Mocha({ color: true, ui: "tdd" });
+  const testsRoot: string = path.resolve(__dirname, "..");
+
+  return new Promise<void>((resolve, reject) => {
+    glob("**/**.test.js", { cwd: testsRoot }, (globError, files) => {
+      if (globError) {
+        reject(globError);
+        return;
+      }
+
+      for (const file of files) {
+        mocha.addFile(path.resolve(testsRoot, file));
+      }
+      try {
+        mocha.run((failures: number) => {
+          if (failures > 0) {
+            reject(new Error(`${failures} tests failed.`));
+          } else {
+            resolve();
+          }
+        });
+      } catch (err) {
+        reject(err);
+      }
+    });
+  });
+}